@@ -0,0 +1,206 @@
+import { type INodeExecutionData, NodeConnectionType, type IExecuteFunctions, type INodeType, type INodeTypeDescription, NodeOperationError } from "n8n-workflow"
+import { getFunctionRegistry } from "../FunctionRegistryFactory"
+import { functionRegistryLogger as logger } from "../Logger"
+import { CallResponse } from "../FunctionRegistry"
+import { FunctionErrorCodes } from "../FunctionCallError"
+import { deserializeBinaryMap } from "../BinaryTransfer"
+
+export class AwaitFunctionResult implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: "Await Function Result",
+		name: "awaitFunctionResult",
+		icon: "fa:hourglass-half",
+		group: ["transform"],
+		version: 1,
+		description: "Wait for or collect the results of functions started by Call Function in Async mode",
+		defaults: {
+			name: "Await Function Result",
+			color: "#ff6d5a",
+		},
+		inputs: [NodeConnectionType.Main],
+		outputs: [NodeConnectionType.Main],
+		properties: [
+			{
+				displayName: "Mode",
+				name: "mode",
+				type: "options",
+				options: [
+					{
+						name: "Wait",
+						value: "wait",
+						description: "Wait for the calls of each item and add their results to it",
+					},
+					{
+						name: "Check Status",
+						value: "check",
+						description: "Add the current status of each call without waiting",
+					},
+					{
+						name: "Collect",
+						value: "collect",
+						description: "Wait for the calls of all items and output a single item with every outcome",
+					},
+				],
+				default: "wait",
+			},
+			{
+				displayName: "Call IDs",
+				name: "callIds",
+				type: "string",
+				default: "={{ $json._callHandle.callId }}",
+				description: "Call ID to await. An expression can also return a list of call IDs or call handles.",
+			},
+			{
+				displayName: "Timeout (Seconds)",
+				name: "timeout",
+				type: "number",
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				description:
+					"How long to wait for the calls. When it expires Wait fails with a FUNCTION_CALL_TIMEOUT error and Collect reports unfinished calls as pending; the calls keep running and can be awaited again. 0 waits until every call returns.",
+				displayOptions: {
+					show: {
+						mode: ["wait", "collect"],
+					},
+				},
+			},
+			{
+				displayName: "Response Variable Name",
+				name: "responseVariableName",
+				type: "string",
+				default: "functionResult",
+				description: "Name of the variable to store the results under",
+				placeholder: "functionResult",
+			},
+		],
+	}
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData()
+		const mode = this.getNodeParameter("mode", 0, "wait") as string
+		const registry = await getFunctionRegistry()
+		logger.log(`⏳ AwaitFunctionResult: ${mode} for ${items.length} items`)
+
+		if (mode === "collect") {
+			const callIds = items.flatMap((_item, itemIndex) => getCallIds(this, itemIndex))
+			const timeout = getTimeout(this, 0)
+			const outcomes = await Promise.all(callIds.map(async (callId) => describeOutcome(callId, await registry.waitForCallResult(callId, timeout))))
+			const responseVariableName = this.getNodeParameter("responseVariableName", 0, "functionResult") as string
+			return [[{ json: { [responseVariableName]: outcomes } }]]
+		}
+
+		const returnData: INodeExecutionData[] = []
+		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+			const item = items[itemIndex]
+			const responseVariableName = this.getNodeParameter("responseVariableName", itemIndex, "functionResult") as string
+
+			try {
+				const callIds = getCallIds(this, itemIndex)
+
+				if (mode === "check") {
+					const statuses = await Promise.all(
+						callIds.map(async (callId) => {
+							const response = await registry.getCallResult(callId)
+							return response ? describeOutcome(callId, response) : { callId, status: "pending" }
+						})
+					)
+					returnData.push({
+						json: { ...item.json, [responseVariableName]: callIds.length === 1 ? statuses[0] : statuses },
+						index: itemIndex,
+						pairedItem: { item: itemIndex },
+						binary: item.binary,
+					})
+					continue
+				}
+
+				const timeout = getTimeout(this, itemIndex)
+				const responses = await Promise.all(callIds.map((callId) => registry.waitForCallResult(callId, timeout)))
+				const failedIndex = responses.findIndex((response) => !response.success)
+				if (failedIndex !== -1) {
+					throw createAwaitFailedError(this, callIds[failedIndex], responses[failedIndex], itemIndex)
+				}
+
+				// A single call returns its binary properties on the item, like a synchronous call
+				const binary = callIds.length === 1 ? await deserializeBinaryMap(this.helpers, responses[0].binary) : undefined
+				returnData.push({
+					json: { ...item.json, [responseVariableName]: callIds.length === 1 ? responses[0].data : responses.map((response) => response.data) },
+					index: itemIndex,
+					pairedItem: { item: itemIndex },
+					binary: binary && Object.keys(binary).length > 0 ? { ...item.binary, ...binary } : item.binary,
+				})
+			} catch (error) {
+				if (!this.continueOnFail()) {
+					throw error
+				}
+				returnData.push({
+					json: {
+						...item.json,
+						[responseVariableName]: {
+							success: false,
+							error: error.message,
+							...(error.context && error.context.errorInfo ? { errorInfo: error.context.errorInfo } : {}),
+						},
+					},
+					index: itemIndex,
+					pairedItem: { item: itemIndex },
+					binary: item.binary,
+				})
+			}
+		}
+
+		return [returnData]
+	}
+}
+
+/**
+ * Read the call IDs of an item: a call ID, a comma-separated list, a call handle, or a list of IDs or handles
+ */
+function getCallIds(context: IExecuteFunctions, itemIndex: number): string[] {
+	const value = context.getNodeParameter("callIds", itemIndex) as any
+	const values = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [value]
+	const callIds = values
+		.map((entry: any) => (entry && typeof entry === "object" ? entry.callId : entry))
+		.filter((callId: any) => typeof callId === "string" && callId.trim() !== "")
+		.map((callId: string) => callId.trim())
+
+	if (callIds.length === 0) {
+		throw new NodeOperationError(context.getNode(), "No call ID to await. Pass the callId of the _callHandle output by Call Function in Async mode.", { itemIndex })
+	}
+	return callIds
+}
+
+/**
+ * Read the Timeout option in milliseconds (0 waits until the calls return)
+ */
+function getTimeout(context: IExecuteFunctions, itemIndex: number): number {
+	const timeoutSeconds = context.getNodeParameter("timeout", itemIndex, 0) as number
+	return timeoutSeconds > 0 ? Math.round(timeoutSeconds * 1000) : 0
+}
+
+/**
+ * Describe the outcome of a finished call for the output item
+ */
+function describeOutcome(callId: string, response: CallResponse): Record<string, any> {
+	if (!response.success) {
+		const timedOut = response.errorInfo !== undefined && response.errorInfo.code === FunctionErrorCodes.FUNCTION_CALL_TIMEOUT
+		return { callId, status: timedOut ? "pending" : "error", error: response.error, ...(response.errorInfo ? { errorInfo: response.errorInfo } : {}) }
+	}
+	return { callId, status: "success", data: response.data }
+}
+
+/**
+ * Turn a failed call into a node error, keeping its structured error information
+ */
+function createAwaitFailedError(context: IExecuteFunctions, callId: string, response: CallResponse, itemIndex: number): NodeOperationError {
+	const timedOut = response.errorInfo !== undefined && response.errorInfo.code === FunctionErrorCodes.FUNCTION_CALL_TIMEOUT
+	const error = new NodeOperationError(context.getNode(), timedOut ? `${response.error}` : `Function call ${callId} failed: ${response.error}`, {
+		itemIndex,
+		description: timedOut ? "The call is still running. Its result can be awaited again until it expires." : undefined,
+	})
+	if (response.errorInfo) {
+		error.context.errorInfo = response.errorInfo
+	}
+	return error
+}
@@ -0,0 +1,109 @@
+import { BinaryHelperFunctions, IBinaryData, IBinaryKeyData, IExecuteFunctions } from "n8n-workflow"
+import { functionRegistryLogger as logger } from "./Logger"
+
+/**
+ * Self-contained copy of an n8n binary property
+ *
+ * n8n binary properties may only hold a reference to data stored by the local
+ * binary data manager (e.g. filesystem mode), which another worker process cannot
+ * read. The serialized form carries the file contents as base64 so it can travel
+ * through Redis streams and be rebuilt on the other side.
+ */
+export interface SerializedBinary {
+	_binary: true
+	data: string
+	mimeType: string
+	fileName?: string
+	fileExtension?: string
+	fileSize?: number
+}
+
+export type SerializedBinaryMap = Record<string, SerializedBinary>
+
+/**
+ * Check whether a value is a serialized binary property
+ */
+export function isSerializedBinary(value: any): value is SerializedBinary {
+	return typeof value === "object" && value !== null && value._binary === true && typeof value.data === "string" && typeof value.mimeType === "string"
+}
+
+/**
+ * Read a binary property of an input item into its serialized form
+ */
+export async function serializeBinaryProperty(context: IExecuteFunctions, itemIndex: number, propertyName: string): Promise<SerializedBinary> {
+	const binaryData = context.helpers.assertBinaryData(itemIndex, propertyName)
+	const buffer = await context.helpers.getBinaryDataBuffer(itemIndex, propertyName)
+
+	logger.log("📎 BINARY: Serialized property", propertyName, `(${buffer.length} bytes, ${binaryData.mimeType})`)
+
+	return {
+		_binary: true,
+		data: buffer.toString("base64"),
+		mimeType: binaryData.mimeType,
+		fileName: binaryData.fileName,
+		fileExtension: binaryData.fileExtension,
+		fileSize: buffer.length,
+	}
+}
+
+/**
+ * Read several binary properties of an input item into their serialized form
+ */
+export async function serializeBinaryProperties(context: IExecuteFunctions, itemIndex: number, propertyNames: string[]): Promise<SerializedBinaryMap> {
+	const serialized: SerializedBinaryMap = {}
+	for (const propertyName of propertyNames) {
+		serialized[propertyName] = await serializeBinaryProperty(context, itemIndex, propertyName)
+	}
+	return serialized
+}
+
+/**
+ * Rebuild a real n8n binary property from its serialized form
+ * Goes through prepareBinaryData so the receiving process's binary data mode is respected
+ */
+export async function deserializeBinary(helpers: Pick<BinaryHelperFunctions, "prepareBinaryData">, serialized: SerializedBinary): Promise<IBinaryData> {
+	const buffer = Buffer.from(serialized.data, "base64")
+	const binaryData = await helpers.prepareBinaryData(buffer, serialized.fileName, serialized.mimeType)
+	if (serialized.fileName) {
+		binaryData.fileName = serialized.fileName
+	}
+	return binaryData
+}
+
+/**
+ * Rebuild several binary properties from their serialized form
+ */
+export async function deserializeBinaryMap(helpers: Pick<BinaryHelperFunctions, "prepareBinaryData">, serialized: SerializedBinaryMap | null | undefined): Promise<IBinaryKeyData> {
+	const binary: IBinaryKeyData = {}
+	for (const [propertyName, serializedBinary] of Object.entries(serialized || {})) {
+		binary[propertyName] = await deserializeBinary(helpers, serializedBinary)
+	}
+	return binary
+}
+
+/**
+ * Describe a serialized binary without its contents (for logs and the item's JSON)
+ */
+export function describeSerializedBinary(serialized: SerializedBinary): { fileName?: string; mimeType: string; fileSize?: number } {
+	return {
+		fileName: serialized.fileName,
+		mimeType: serialized.mimeType,
+		fileSize: serialized.fileSize,
+	}
+}
+
+/**
+ * Resolve a comma-separated list of binary property names against the properties an item has
+ * "*" selects every binary property of the item
+ */
+export function parseBinaryPropertyList(raw: string | undefined, availableProperties: string[]): string[] {
+	const names = (raw || "")
+		.split(",")
+		.map((name) => name.trim())
+		.filter((name) => name !== "")
+
+	if (names.includes("*")) {
+		return availableProperties
+	}
+	return names
+}
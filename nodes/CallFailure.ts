@@ -0,0 +1,60 @@
+import { NodeOperationError } from "n8n-workflow"
+import { FunctionErrorCodes } from "./FunctionCallError"
+import { getCallErrorInfo, getRetryCondition } from "./RetryPolicy"
+
+/**
+ * Where a failed call went wrong
+ * - caller: the calling node could not make the call (configuration, invalid parameters)
+ * - transport: the call did not reach the function or come back in time (no workers, circuit breaker, Redis, timeout)
+ * - function: the function ran and reported an error
+ */
+export type CallFailureOrigin = "caller" | "transport" | "function"
+
+/**
+ * Structured description of a failed call, as sent to the Error output of Call Function
+ */
+export interface CallFailure {
+	code: string
+	message: string
+	functionName: string
+	callId?: string
+	attempts: number
+	origin: CallFailureOrigin
+	details?: any
+	// Whether the function marked its error as worth retrying (errors thrown with Throw Error only)
+	retryable?: boolean
+}
+
+/**
+ * Describe a failed call from the error it ended with
+ */
+export function describeCallFailure(error: any, functionName: string, callId: string | undefined, attempts: number): CallFailure {
+	const failure = { message: error && error.message ? error.message : String(error), functionName, callId, attempts }
+	const errorInfo = getCallErrorInfo(error)
+
+	switch (getRetryCondition(error)) {
+		case "timeout":
+			return { ...failure, code: FunctionErrorCodes.FUNCTION_CALL_TIMEOUT, origin: "transport" }
+		case "unavailable":
+			return { ...failure, code: FunctionErrorCodes.FUNCTION_UNAVAILABLE, origin: "transport" }
+	}
+
+	if (errorInfo && errorInfo.code === FunctionErrorCodes.DEADLINE_EXCEEDED) {
+		return { ...failure, code: errorInfo.code, origin: "transport", details: errorInfo.details }
+	}
+	if (errorInfo) {
+		// Parameters are bound by the function, but invalid parameters are the caller's mistake, and only the caller cancels
+		const origin = errorInfo.code === FunctionErrorCodes.PARAMETER_VALIDATION_FAILED || errorInfo.code === FunctionErrorCodes.CALL_CANCELLED ? "caller" : "function"
+		return {
+			...failure,
+			code: errorInfo.code,
+			origin,
+			...(errorInfo.details !== undefined ? { details: errorInfo.details } : {}),
+			...(errorInfo.retryable !== undefined ? { retryable: errorInfo.retryable } : {}),
+		}
+	}
+	if (error instanceof NodeOperationError) {
+		return { ...failure, code: FunctionErrorCodes.INVALID_CALL, origin: "caller" }
+	}
+	return { ...failure, code: FunctionErrorCodes.TRANSPORT_ERROR, origin: "transport" }
+}
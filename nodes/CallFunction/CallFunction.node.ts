@@ -5,11 +5,25 @@ import {
 	type INodeType,
 	type INodeTypeDescription,
 	type ILoadOptionsFunctions,
+	type IBinaryKeyData,
+	type INode,
 	NodeOperationError,
 } from "n8n-workflow"
 import { getFunctionRegistry, getEnhancedFunctionRegistry, isQueueModeEnabled, REDIS_KEY_PREFIX } from "../FunctionRegistryFactory"
 import { functionRegistryLogger as logger } from "../Logger"
 import { EnhancedFunctionRegistry } from "../EnhancedFunctionRegistry"
+import { SerializedBinaryMap, deserializeBinaryMap, serializeBinaryProperty } from "../BinaryTransfer"
+import { BatchCallEntry, BatchCallResponse, CallOptions, FunctionDefinition, FunctionParameter, FunctionRegistry, createCallId, qualifyFunctionName } from "../FunctionRegistry"
+import { isValidVersionRange } from "../SemanticVersion"
+import { FunctionErrorCodes, FunctionErrorInfo } from "../FunctionCallError"
+import { ParameterBindingIssue, bindParameters, coerceParameterValue, formatParameterBindingIssues } from "../ParameterBinding"
+import { RetryCondition, RetryPolicy, runWithRetry } from "../RetryPolicy"
+import { CallFailure, describeCallFailure } from "../CallFailure"
+import { CachedResult, createCacheKey } from "../ResultCache"
+import { CallSpan, CallTrace, createTraceId, exportTrace, isTracingEnabled } from "../CallTracing"
+
+// Seconds a call waits for the function to return when the Timeout is left at 0
+const DEFAULT_CALL_TIMEOUT = 300
 
 export class CallFunction implements INodeType {
 	description: INodeTypeDescription = {
@@ -17,15 +31,16 @@ export class CallFunction implements INodeType {
 		name: "callFunction",
 		icon: "fa:play",
 		group: ["transform"],
-		version: 1,
+		version: [1, 1.1],
+		defaultVersion: 1.1,
 		description: "Call a Function node defined in the current workflow",
-		subtitle: '={{$parameter["functionName"] ? $parameter["functionName"] : ""}}',
+		subtitle: '={{$parameter["functionSource"] === "global" ? $parameter["functionName"] : ""}}{{$parameter["functionVersion"] ? "@" + $parameter["functionVersion"] : ""}}',
 		defaults: {
 			name: "Call Function",
 			color: "#ff6d5a",
 		},
 		inputs: [NodeConnectionType.Main],
-		outputs: [NodeConnectionType.Main],
+		outputs: `={{ $parameter["errorOutput"] ? [{ type: "${NodeConnectionType.Main}", displayName: "Success" }, { type: "${NodeConnectionType.Main}", displayName: "Error", category: "error" }] : ["${NodeConnectionType.Main}"] }}`,
 		properties: [
 			{
 				displayName: "ℹ️ If function details are out-of-date, toggle Active off/on for the workflow containing the function",
@@ -33,6 +48,25 @@ export class CallFunction implements INodeType {
 				type: "notice",
 				default: "",
 			},
+			{
+				displayName: "Function Source",
+				name: "functionSource",
+				type: "options",
+				options: [
+					{
+						name: "Workflow",
+						value: "workflow",
+						description: "Pick a workflow, then one of its functions",
+					},
+					{
+						name: "Global",
+						value: "global",
+						description: "Pick a globally published function from any workflow",
+					},
+				],
+				default: "workflow",
+				description: "Where to find the function to call",
+			},
 			{
 				displayName: "Workflow",
 				name: "workflowId",
@@ -40,6 +74,11 @@ export class CallFunction implements INodeType {
 				default: "",
 				required: true,
 				description: "Select the workflow containing the function to call",
+				displayOptions: {
+					show: {
+						functionSource: ["workflow"],
+					},
+				},
 			},
 			{
 				displayName: "Function Name or ID",
@@ -54,11 +93,49 @@ export class CallFunction implements INodeType {
 				description: 'Name of the function to call. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 				placeholder: "Select a function...",
 				displayOptions: {
+					show: {
+						functionSource: ["workflow"],
+					},
 					hide: {
 						workflowId: [""],
 					},
 				},
 			},
+			{
+				displayName: "Global Function Name or ID",
+				name: "functionName",
+				type: "options",
+				typeOptions: {
+					loadOptionsMethod: "getGlobalFunctions",
+				},
+				default: "",
+				required: true,
+				description:
+					'Global name of the function to call (e.g. billing.computeTax). Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+				placeholder: "Select a global function...",
+				displayOptions: {
+					show: {
+						functionSource: ["global"],
+					},
+				},
+			},
+			{
+				displayName: "Function Version",
+				name: "functionVersion",
+				type: "string",
+				default: "",
+				placeholder: "^2.0.0",
+				description:
+					"Version of the function to call: an exact version (2.1.0) or a range (^2, ~2.1, 2.x, >=2.0.0 <3). The highest matching version is called. Leave empty to call the latest version.",
+				displayOptions: {
+					show: {
+						functionName: [{ _cnd: { exists: true } }],
+					},
+					hide: {
+						functionName: ["", "__no_workflow_selected__", "__no_functions__", "__activate_workflow__"],
+					},
+				},
+			},
 			{
 				displayName: "Last Configured Function",
 				name: "lastConfiguredFunction",
@@ -152,12 +229,32 @@ export class CallFunction implements INodeType {
 								description: 'Select the parameter to set. Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
 								required: true,
 							},
+							{
+								displayName: "Option Value Name or ID",
+								name: "optionValue",
+								type: "options",
+								typeOptions: {
+									loadOptionsMethod: "getParameterOptionValues",
+									loadOptionsDependsOn: ["&name"],
+								},
+								default: "",
+								description:
+									'For Options parameters, the allowed value to pass (takes precedence over Value). Choose from the list, or specify an ID using an <a href="https://docs.n8n.io/code/expressions/">expression</a>.',
+							},
 							{
 								displayName: "Value",
 								name: "value",
 								type: "string",
 								default: "",
-								description: "Value to pass for this parameter",
+								description:
+									"Value to pass for this parameter, converted to the parameter's declared type (objects and arrays as JSON). Leave empty to use the parameter's default.",
+							},
+							{
+								displayName: "Send Empty Value",
+								name: "sendEmptyValue",
+								type: "boolean",
+								default: false,
+								description: "Whether to pass an empty Value as an empty string instead of leaving the parameter out (string parameters only)",
 							},
 						],
 					},
@@ -171,6 +268,7 @@ export class CallFunction implements INodeType {
 				description: "Whether to store the function's return value in the output item",
 				displayOptions: {
 					show: {
+						"@version": [1],
 						functionName: [{ _cnd: { exists: true } }],
 					},
 					hide: {
@@ -187,6 +285,7 @@ export class CallFunction implements INodeType {
 				placeholder: "functionResult",
 				displayOptions: {
 					show: {
+						"@version": [1],
 						storeResponse: [true],
 						functionName: [{ _cnd: { exists: true } }],
 					},
@@ -195,6 +294,368 @@ export class CallFunction implements INodeType {
 					},
 				},
 			},
+			{
+				displayName: "Response Mode",
+				name: "responseMode",
+				type: "options",
+				options: [
+					{
+						name: "Discard",
+						value: "none",
+						description: "Output the item unchanged and ignore the return value",
+					},
+					{
+						name: "Merge Into Item",
+						value: "merge",
+						description: "Merge the fields of the returned object into the item",
+					},
+					{
+						name: "Replace Item",
+						value: "replace",
+						description: "Output the return value instead of the item",
+					},
+					{
+						name: "Split Into Items",
+						value: "split",
+						description: "Output one item per element when the function returns an array",
+					},
+					{
+						name: "Store Under Key",
+						value: "store",
+						description: "Add the return value to the item under Response Variable Name",
+					},
+				],
+				default: "store",
+				description: "How the function's return value is put on the output",
+				displayOptions: {
+					show: {
+						"@version": [{ _cnd: { gte: 1.1 } }],
+						callMode: ["item", "batch"],
+						functionName: [{ _cnd: { exists: true } }],
+					},
+					hide: {
+						functionName: ["", "__no_workflow_selected__", "__no_functions__", "__activate_workflow__"],
+					},
+				},
+			},
+			{
+				displayName: "Response Variable Name",
+				name: "responseVariableName",
+				type: "string",
+				default: "functionResult",
+				description: "Name of the variable to store the function response under. Replace and Split also use it for return values that are not objects.",
+				placeholder: "functionResult",
+				displayOptions: {
+					show: {
+						"@version": [{ _cnd: { gte: 1.1 } }],
+						callMode: ["item", "batch"],
+						responseMode: ["store", "replace", "split"],
+						functionName: [{ _cnd: { exists: true } }],
+					},
+					hide: {
+						functionName: ["", "__no_workflow_selected__", "__no_functions__", "__activate_workflow__"],
+					},
+				},
+			},
+			{
+				displayName: "On Field Conflict",
+				name: "mergeConflict",
+				type: "options",
+				options: [
+					{
+						name: "Use Returned Value",
+						value: "preferReturn",
+						description: "Overwrite the item's field with the returned one",
+					},
+					{
+						name: "Keep Item Value",
+						value: "preferItem",
+						description: "Keep the item's field and drop the returned one",
+					},
+					{
+						name: "Fail",
+						value: "error",
+						description: "Fail the call, listing the conflicting fields",
+					},
+				],
+				default: "preferReturn",
+				description: "What to do when the returned object has a field the item already has",
+				displayOptions: {
+					show: {
+						"@version": [{ _cnd: { gte: 1.1 } }],
+						callMode: ["item", "batch"],
+						responseMode: ["merge"],
+						functionName: [{ _cnd: { exists: true } }],
+					},
+					hide: {
+						functionName: ["", "__no_workflow_selected__", "__no_functions__", "__activate_workflow__"],
+					},
+				},
+			},
+			{
+				displayName: "Call Mode",
+				name: "callMode",
+				type: "options",
+				options: [
+					{
+						name: "Each Item",
+						value: "item",
+						description: "Call the function once per input item",
+					},
+					{
+						name: "Batch",
+						value: "batch",
+						description: "Send the input items together; the function runs once for the whole batch and returns one result per item",
+					},
+					{
+						name: "Async",
+						value: "async",
+						description: "Start the call for each item without waiting; output a call handle to collect the result later with Await Function Result",
+					},
+				],
+				default: "item",
+				description: "How input items are sent to the function",
+				displayOptions: {
+					show: {
+						functionName: [{ _cnd: { exists: true } }],
+					},
+					hide: {
+						functionName: ["", "__no_workflow_selected__", "__no_functions__", "__activate_workflow__"],
+					},
+				},
+			},
+			{
+				displayName: "Max Concurrency",
+				name: "maxConcurrency",
+				type: "number",
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 1,
+				description: "Maximum number of item calls in flight at once. Output items keep the input order.",
+				displayOptions: {
+					show: {
+						callMode: ["item"],
+						functionName: [{ _cnd: { exists: true } }],
+					},
+					hide: {
+						functionName: ["", "__no_workflow_selected__", "__no_functions__", "__activate_workflow__"],
+					},
+				},
+			},
+			{
+				displayName: "Timeout (Seconds)",
+				name: "timeout",
+				type: "number",
+				typeOptions: {
+					minValue: -1,
+				},
+				default: DEFAULT_CALL_TIMEOUT,
+				description:
+					"How long to wait for the function to return. When it expires the call fails with a FUNCTION_CALL_TIMEOUT error and a late return is discarded. 0 uses the default of 300 seconds; -1 waits until the function returns. Inside a function, calls also stop at the deadline of the call that started it, and pass the earlier deadline on to the function they call.",
+				displayOptions: {
+					show: {
+						callMode: ["item", "batch"],
+						functionName: [{ _cnd: { exists: true } }],
+					},
+					hide: {
+						functionName: ["", "__no_workflow_selected__", "__no_functions__", "__activate_workflow__"],
+					},
+				},
+			},
+			{
+				displayName: "Result TTL (Seconds)",
+				name: "resultTtl",
+				type: "number",
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 300,
+				description: "How long the function's result is kept for Await Function Result after the function returns",
+				displayOptions: {
+					show: {
+						callMode: ["async"],
+						functionName: [{ _cnd: { exists: true } }],
+					},
+					hide: {
+						functionName: ["", "__no_workflow_selected__", "__no_functions__", "__activate_workflow__"],
+					},
+				},
+			},
+			{
+				displayName: "Max Attempts",
+				name: "maxAttempts",
+				type: "number",
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 1,
+				description: "How many times to try a failed call, including the first call. Every attempt carries the same idempotency key so the function can detect repeats.",
+				displayOptions: {
+					show: {
+						functionName: [{ _cnd: { exists: true } }],
+					},
+					hide: {
+						functionName: ["", "__no_workflow_selected__", "__no_functions__", "__activate_workflow__"],
+					},
+				},
+			},
+			{
+				displayName: "Retry Options",
+				name: "retryOptions",
+				type: "collection",
+				placeholder: "Add Option",
+				default: {},
+				options: [
+					{
+						displayName: "Backoff",
+						name: "backoff",
+						type: "options",
+						options: [
+							{
+								name: "Exponential",
+								value: "exponential",
+								description: "Double the delay after every failed attempt",
+							},
+							{
+								name: "Fixed",
+								value: "fixed",
+								description: "Wait the same delay between attempts",
+							},
+						],
+						default: "exponential",
+						description: "How the wait between attempts grows",
+					},
+					{
+						displayName: "Delay (Ms)",
+						name: "delay",
+						type: "number",
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 1000,
+						description: "Milliseconds to wait before the first retry",
+					},
+					{
+						displayName: "Error Codes",
+						name: "errorCodes",
+						type: "string",
+						default: "FUNCTION_ERROR",
+						description:
+							"Comma-separated error codes reported by the function that are retried when Retry On includes Function Error Codes. Errors a function throws as retryable are retried whatever their code.",
+					},
+					{
+						displayName: "Jitter",
+						name: "jitter",
+						type: "boolean",
+						default: true,
+						description: "Whether to randomize each wait between half and all of the delay, so concurrent callers do not retry in lockstep",
+					},
+					{
+						displayName: "Max Delay (Ms)",
+						name: "maxDelay",
+						type: "number",
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 30000,
+						description: "Upper bound for a single wait in milliseconds. 0 means no bound.",
+					},
+					{
+						displayName: "Retry On",
+						name: "retryOn",
+						type: "multiOptions",
+						options: [
+							{
+								name: "Function Error Codes",
+								value: "errorCode",
+								description: "The function reported an error with one of the listed error codes, or threw an error marked retryable",
+							},
+							{
+								name: "Function Unavailable",
+								value: "unavailable",
+								description: "No worker took the call, or the circuit breaker is open",
+							},
+							{
+								name: "Timeout",
+								value: "timeout",
+								description: "The function did not return within the timeout",
+							},
+						],
+						default: ["timeout", "unavailable"],
+						description: "Which failures are retried. Other failures fail immediately.",
+					},
+				],
+				displayOptions: {
+					show: {
+						maxAttempts: [{ _cnd: { gt: 1 } }],
+						functionName: [{ _cnd: { exists: true } }],
+					},
+					hide: {
+						functionName: ["", "__no_workflow_selected__", "__no_functions__", "__activate_workflow__"],
+					},
+				},
+			},
+			{
+				displayName: "Batch Size",
+				name: "batchSize",
+				type: "number",
+				typeOptions: {
+					minValue: 0,
+				},
+				default: 0,
+				description: "Maximum number of items per call. 0 sends all input items in a single call.",
+				displayOptions: {
+					show: {
+						callMode: ["batch"],
+						functionName: [{ _cnd: { exists: true } }],
+					},
+					hide: {
+						functionName: ["", "__no_workflow_selected__", "__no_functions__", "__activate_workflow__"],
+					},
+				},
+			},
+			{
+				displayName: "Cache",
+				name: "cacheMode",
+				type: "options",
+				options: [
+					{
+						name: "Use Cached Result",
+						value: "use",
+						description: "Return a cached result for the same parameters without calling the function",
+					},
+					{
+						name: "Refresh",
+						value: "refresh",
+						description: "Always call the function and replace the cached result",
+					},
+					{
+						name: "Invalidate Function Cache",
+						value: "invalidate",
+						description: "Drop every cached result of the function once per execution, then use the cache as with Use Cached Result",
+					},
+				],
+				default: "use",
+				description: "How calls to functions marked Cacheable use their result cache. Has no effect on other functions.",
+				displayOptions: {
+					show: {
+						callMode: ["item"],
+						functionName: [{ _cnd: { exists: true } }],
+					},
+					hide: {
+						functionName: ["", "__no_workflow_selected__", "__no_functions__", "__activate_workflow__"],
+					},
+				},
+			},
+			{
+				displayName: "Error Output",
+				name: "errorOutput",
+				type: "boolean",
+				default: false,
+				description:
+					"Whether to send failed calls to a separate Error output instead of failing the node. Each error item carries error.code, error.message, error.functionName, error.callId, error.attempts and error.origin (caller, transport or function), plus error.details and error.retryable when the function threw the error with Return from Function.",
+			},
 		],
 	}
 
@@ -208,12 +669,7 @@ export class CallFunction implements INodeType {
 				logger.log("🔧 CallFunction: Selected workflow selector:", workflowSelector)
 
 				// Extract the actual workflow ID from the selector object
-				let workflowId: string = ""
-				if (workflowSelector && typeof workflowSelector === "object" && workflowSelector.value) {
-					workflowId = workflowSelector.value
-				} else if (typeof workflowSelector === "string") {
-					workflowId = workflowSelector
-				}
+				const workflowId = getSelectedWorkflowId(workflowSelector)
 
 				logger.log("🔧 CallFunction: Extracted workflow ID:", workflowId)
 
@@ -263,6 +719,19 @@ export class CallFunction implements INodeType {
 
 				const availableFunctions = await registry.getAvailableFunctions(workflowId)
 
+				// Older nodes store the function name; point out when that name now belongs to a renamed function
+				const currentFunction = this.getCurrentNodeParameter("functionName") as string
+				if (currentFunction && !currentFunction.startsWith("__") && !availableFunctions.some((fn) => fn.value === currentFunction)) {
+					const resolved = await registry.resolveFunctionName(currentFunction, workflowId)
+					if (resolved && resolved.renamedFrom) {
+						availableFunctions.unshift({
+							name: `⚠️ ${currentFunction} (Renamed to ${resolved.name})`,
+							value: currentFunction,
+							description: `This function was renamed to ${resolved.name}. Calls still work through the old name; select ${resolved.name} to store its stable ID.`,
+						})
+					}
+				}
+
 				// If no functions found, add a helpful message
 				if (availableFunctions.length === 0) {
 					return [
@@ -282,8 +751,29 @@ export class CallFunction implements INodeType {
 				logger.log("🔧 CallFunction: Available functions:", availableFunctions)
 				return availableFunctions
 			},
+			async getGlobalFunctions(this: ILoadOptionsFunctions) {
+				logger.log("🔧 CallFunction: Loading global functions for dropdown")
+
+				const registry = await getFunctionRegistry()
+				const globalFunctions = await registry.getGlobalFunctions()
+
+				if (globalFunctions.length === 0) {
+					return [
+						{
+							name: "⚠️ No Global Functions Available",
+							value: "__no_functions__",
+							description: "Set a Function node's Visibility to Global and activate its workflow",
+						},
+					]
+				}
+
+				logger.log("🔧 CallFunction: Global functions:", globalFunctions)
+				return globalFunctions
+			},
 			async getFunctionParameters(this: ILoadOptionsFunctions) {
 				const functionName = this.getCurrentNodeParameter("functionName") as string
+				const functionVersion = (this.getCurrentNodeParameter("functionVersion") as string) || ""
+				const functionSource = (this.getCurrentNodeParameter("functionSource") as string) || "workflow"
 				const lastConfiguredFunction = this.getCurrentNodeParameter("lastConfiguredFunction") as string
 				const workflowSelector = this.getCurrentNodeParameter("workflowId") as any
 
@@ -292,12 +782,7 @@ export class CallFunction implements INodeType {
 				logger.log("🔧 CallFunction: Selected workflow selector:", workflowSelector)
 
 				// Extract the actual workflow ID from the selector object
-				let workflowId: string = ""
-				if (workflowSelector && typeof workflowSelector === "object" && workflowSelector.value) {
-					workflowId = workflowSelector.value
-				} else if (typeof workflowSelector === "string") {
-					workflowId = workflowSelector
-				}
+				const workflowId = getSelectedWorkflowId(workflowSelector)
 
 				logger.log("🔧 CallFunction: Extracted workflow ID:", workflowId)
 
@@ -305,12 +790,13 @@ export class CallFunction implements INodeType {
 					return []
 				}
 
-				if (!workflowId) {
+				if (functionSource !== "global" && !workflowId) {
 					return []
 				}
 
 				const registry = await getFunctionRegistry()
-				const parameters = await registry.getFunctionParameters(functionName, workflowId)
+				const { definition } = await findTargetFunction(registry, functionSource, functionName, workflowId, functionVersion)
+				const parameters = definition ? definition.parameters : []
 
 				logger.log("🔧 CallFunction: Found parameters:", parameters)
 
@@ -383,6 +869,41 @@ export class CallFunction implements INodeType {
 					description: param.description || `${param.type} parameter${param.required ? " (required)" : ""}`,
 				}))
 			},
+			async getParameterOptionValues(this: ILoadOptionsFunctions) {
+				const functionName = this.getCurrentNodeParameter("functionName") as string
+				const workflowId = getSelectedWorkflowId(this.getCurrentNodeParameter("workflowId"))
+				const parameterName = this.getCurrentNodeParameter("&name") as string
+				const functionVersion = (this.getCurrentNodeParameter("functionVersion") as string) || ""
+				const functionSource = (this.getCurrentNodeParameter("functionSource") as string) || "workflow"
+
+				logger.log("🔧 CallFunction: Loading option values for parameter:", parameterName, "of function:", functionName)
+
+				const notAnOptionsParameter = [
+					{
+						name: "Not an Options Parameter (Use Value)",
+						value: "",
+						description: "The selected parameter has no list of allowed values. Enter it in the Value field instead.",
+					},
+				]
+
+				if (!functionName || !parameterName) {
+					return notAnOptionsParameter
+				}
+
+				const registry = await getFunctionRegistry()
+				const { definition } = await findTargetFunction(registry, functionSource, functionName, workflowId, functionVersion)
+				const parameters = definition ? definition.parameters : []
+				const parameter = parameters.find((param) => param.name === parameterName)
+
+				if (!parameter || parameter.type !== "options" || !parameter.options || parameter.options.length === 0) {
+					return notAnOptionsParameter
+				}
+
+				return parameter.options.map((option) => ({
+					name: option,
+					value: option,
+				}))
+			},
 		},
 	}
 
@@ -401,113 +922,45 @@ export class CallFunction implements INodeType {
 
 		// Debug: Log all node parameters
 		try {
-			const nodeParams = this.getNode().parameters
-			logger.log(`Node parameters:`, JSON.stringify(nodeParams, null, 2))
-		} catch (error) {
-			logger.log(`Could not get node parameters:`, error.message)
-		}
-
-		const returnData: INodeExecutionData[] = []
-
-		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
-			logger.log(`Processing item ${itemIndex + 1}/${items.length}`)
-
-			const workflowSelector = this.getNodeParameter("workflowId", itemIndex) as any
-			const functionName = this.getNodeParameter("functionName", itemIndex) as string
-			const parameterMode = this.getNodeParameter("parameterMode", itemIndex) as string
-			const storeResponse = this.getNodeParameter("storeResponse", itemIndex) as boolean
-			const responseVariableName = this.getNodeParameter("responseVariableName", itemIndex, "") as string
-
-			// Extract the actual workflow ID from the selector object
-			let workflowId: string = ""
-			if (workflowSelector && typeof workflowSelector === "object" && workflowSelector.value) {
-				workflowId = workflowSelector.value
-			} else if (typeof workflowSelector === "string") {
-				workflowId = workflowSelector
-			}
-
-			logger.log(`Selected workflow selector =`, workflowSelector)
-			logger.log(`Extracted workflow ID =`, workflowId)
-			logger.log(`Function name =`, functionName)
-			logger.log(`Parameter mode =`, parameterMode)
-			logger.log(`Store response =`, storeResponse)
-			logger.log(`Response variable name =`, responseVariableName)
-
-			if (!workflowId) {
-				throw new NodeOperationError(this.getNode(), "Please select a workflow first.")
-			}
-
-			if (!functionName || functionName === "__no_functions__" || functionName === "__no_workflow_selected__" || functionName === "__activate_workflow__") {
-				throw new NodeOperationError(
-					this.getNode(),
-					"Please select a valid function. If no functions are available, make sure the selected workflow is active and contains Function nodes."
-				)
-			}
-
-			// Get function parameter definitions for validation
-			const registry = await getFunctionRegistry()
-			const functionParameterDefs = await registry.getFunctionParameters(functionName, workflowId)
-
-			const validParameterNames = new Set(functionParameterDefs.map((p: any) => p.name))
-
-			// Prepare parameters to pass to the function
-			let functionParameters: Record<string, any> = {}
-
-			if (parameterMode === "json") {
-				const parametersJson = this.getNodeParameter("parametersJson", itemIndex) as string
-				logger.log("🔧 CallFunction: Raw JSON parameters =", parametersJson)
-				try {
-					functionParameters = JSON.parse(parametersJson)
-				} catch (error) {
-					throw new NodeOperationError(this.getNode(), `Invalid JSON in parameters: ${error}`)
-				}
-			} else {
-				// Individual parameters mode
-				const parameters = this.getNodeParameter("parameters", itemIndex, {}) as any
-				const parameterList = parameters.parameter || []
-				logger.log("🔧 CallFunction: Parameter list =", parameterList)
-
-				// Validate parameters and filter out invalid ones
-				const validParameters = []
-				const invalidParameters = []
-
-				for (const param of parameterList) {
-					const paramName = param.name
-					const paramValue = param.value
-
-					// Skip special placeholder values
-					if (paramName === "__no_params_available__" || paramName === "__function_changed__" || paramName === "__clear_parameters__") {
-						continue
-					}
+			const nodeParams = this.getNode().parameters
+			logger.log(`Node parameters:`, JSON.stringify(nodeParams, null, 2))
+		} catch (error) {
+			logger.log(`Could not get node parameters:`, error.message)
+		}
 
-					// Check if parameter is valid for this function
-					if (!validParameterNames.has(paramName)) {
-						invalidParameters.push(paramName)
-						continue
-					}
+		const callMode = this.getNodeParameter("callMode", 0, "item") as string
+		const errorOutput = this.getNodeParameter("errorOutput", 0, false) as boolean
+		if (callMode === "batch" || callMode === "async") {
+			const modeOutput = callMode === "batch" ? await executeBatchCalls(this, items) : await executeAsyncCalls(this, items)
+			return errorOutput ? [modeOutput.results, modeOutput.errors] : [modeOutput.results]
+		}
 
-					// Try to parse the value as JSON first, fall back to string
-					let parsedValue: any
-					try {
-						parsedValue = JSON.parse(paramValue)
-					} catch {
-						parsedValue = paramValue
-					}
+		const returnData: INodeExecutionData[] = []
+		const errorData: INodeExecutionData[] = []
+		// Invalidate Function Cache drops each function's cache once per execution, keyed by "<function>:<scope>"
+		const invalidations = new Map<string, Promise<void>>()
 
-					functionParameters[paramName] = parsedValue
-					validParameters.push(paramName)
-				}
+		// Calls one item; results are collected per item so the outputs keep the input order when calls run concurrently
+		const callItem = async (itemIndex: number): Promise<CallOutput> => {
+			const output: CallOutput = { results: [], errors: [] }
+			logger.log(`Processing item ${itemIndex + 1}/${items.length}`)
 
-				// Warn about invalid parameters
-				if (invalidParameters.length > 0) {
-					logger.warn("🔧 CallFunction: Invalid parameters detected (function may have changed):", invalidParameters)
-					logger.log("🔧 CallFunction: Valid parameters for function:", Array.from(validParameterNames))
-				}
+			const responseOptions = getResponseOptions(this, itemIndex)
+			const callTimeout = getCallTimeout(this, itemIndex)
+			logger.log(`Response options =`, responseOptions)
 
-				logger.log("🔧 CallFunction: Valid parameters used:", validParameters)
+			let target: CallTarget
+			let functionParameters: Record<string, any>
+			try {
+				target = await resolveCallTarget(this, itemIndex)
+				functionParameters = await buildFunctionParameters(this, itemIndex, target.definition ? target.definition.parameters : [])
+			} catch (error) {
+				// The call could not be made at all, so there is no call ID or attempt to report
+				const failure = describeCallFailure(error, this.getNodeParameter("functionName", itemIndex, "") as string, undefined, 0)
+				handleCallFailure(this, output, items[itemIndex], itemIndex, {}, failure, error)
+				return output
 			}
-
-			logger.log("🔧 CallFunction: Final parameters =", functionParameters)
+			const { functionName, targetFunctionName, workflowId } = target
 
 			// Use the selected workflow ID as the target scope
 			const targetScope = workflowId
@@ -517,8 +970,43 @@ export class CallFunction implements INodeType {
 			// Use the registry instance to call the function
 			const item = items[itemIndex]
 
-			try {
-				console.log("🚀🚀🚀 CALLFUNCTION: ENTERING TRY BLOCK FOR FUNCTION CALL")
+			// Cacheable functions answer repeated calls from their result cache
+			const cacheKey = await prepareResultCache(this, itemIndex, target, functionParameters, item, invalidations)
+			if (cacheKey) {
+				const registry = await getFunctionRegistry()
+				const cached = this.getNodeParameter("cacheMode", itemIndex, "use") !== "refresh" ? await registry.getCachedResult(targetFunctionName, targetScope, cacheKey) : null
+				if (cached) {
+					logger.log("💾 CallFunction: Using cached result of", targetFunctionName)
+					output.results.push(...applyResponse(this.getNode(), responseOptions, item, itemIndex, cached.data, item.binary, await deserializeBinaryMap(this.helpers, cached.binary)))
+					return output
+				}
+			}
+			// The value returned by the successful attempt, cached for later calls
+			let returned: CachedResult | undefined
+
+			const retryPolicy = getRetryPolicy(this, itemIndex)
+			// Every attempt of this item's call carries the same key so the function can deduplicate retries
+			const idempotencyKey = createIdempotencyKey(this, itemIndex)
+			// The last attempt, reported on the Error output
+			let attempts = 0
+			let lastCallId: string | undefined
+			// Every attempt is a span of the same trace
+			const trace = getCallTrace(item)
+
+			// One attempt of the call; the retry policy repeats it as a whole
+			const attemptCall = async (attempt: number, callId: string): Promise<INodeExecutionData[]> => {
+				const itemResults: INodeExecutionData[] = []
+				const callOptions: CallOptions = {
+					...getCallDeadline(item, callTimeout),
+					...trace,
+					idempotencyKey,
+					attempt,
+					callId,
+					signal: this.getExecutionCancelSignal(),
+				}
+				attempts = attempt
+				lastCallId = callOptions.callId
+				console.log("🚀🚀🚀 CALLFUNCTION: ENTERING TRY BLOCK FOR FUNCTION CALL", attempt > 1 ? `(attempt ${attempt})` : "")
 				// Check if queue mode is enabled to determine call method
 				console.log("🔍 CALLFUNCTION: Checking queue mode status...")
 				logger.debug("🔍 CallFunction: Checking queue mode status...")
@@ -535,10 +1023,14 @@ export class CallFunction implements INodeType {
 					const registry = await getFunctionRegistry()
 
 					// Call function directly via registry (old simple pattern)
-					const callResult = await registry.callFunction(functionName, targetScope, functionParameters, item)
+					const callResult = await registry.callFunction(targetFunctionName, targetScope, functionParameters, item, callOptions)
+
+					if (!callResult.success) {
+						throw createCallFailedError(this.getNode(), callResult, itemIndex)
+					}
 
 					if (!callResult.result) {
-						throw new NodeOperationError(this.getNode(), `Function '${functionName}' not found or no workers available`)
+						throw new NodeOperationError(this.getNode(), `Function '${targetFunctionName}' not found or no workers available`)
 					}
 
 					logger.log("🔧 CallFunction: Direct call result:", callResult.result)
@@ -591,26 +1083,20 @@ export class CallFunction implements INodeType {
 							}
 						}
 
-						// Start with the original item
-						let resultJson: any = { ...item.json }
-
-						// Store response ONLY if requested
-						if (storeResponse && responseVariableName && responseVariableName.trim()) {
-							// Store under specific variable name
-							resultJson[responseVariableName] = finalReturnValue
+						// Only a single returned value can be cached
+						if (callResult.result.length === 1 && resultItem.json._functionReturn !== undefined) {
+							returned = { data: finalReturnValue, binary: resultItem.json._functionReturnBinary as SerializedBinaryMap | undefined }
 						}
-						// If storeResponse is false, don't include the function return value at all
 
-						const finalResultItem: INodeExecutionData = {
-							json: resultJson,
-							index: itemIndex,
-							binary: resultItem.binary || item.binary,
-						}
+						// Attach binary properties returned by the function
+						const returnedBinary = await deserializeBinaryMap(this.helpers, resultItem.json._functionReturnBinary as SerializedBinaryMap | undefined)
 
-						logger.log("🔧 CallFunction: Created result item =", finalResultItem)
-						returnData.push(finalResultItem)
+						const finalResultItems = applyResponse(this.getNode(), responseOptions, item, itemIndex, finalReturnValue, resultItem.binary || item.binary, returnedBinary)
+
+						logger.log("🔧 CallFunction: Created result items =", finalResultItems)
+						itemResults.push(...finalResultItems)
 					}
-					continue // Skip to next item - in-memory processing complete
+					return itemResults // Skip to next item - in-memory processing complete
 				}
 
 				// QUEUE MODE ONLY - Enhanced registry with Redis streams
@@ -645,9 +1131,9 @@ export class CallFunction implements INodeType {
 					logger.log("🌊 CallFunction: Using Redis streams for function call with instant readiness")
 
 					// Generate unique call ID
-					const callId = `call-${Date.now()}-${Math.random().toString(36).slice(2)}`
+					const callId = callOptions.callId!
 					const responseChannel = `${REDIS_KEY_PREFIX}function:response:${callId}`
-					const streamKey = `${REDIS_KEY_PREFIX}function_calls:${functionName}:${workflowId}`
+					const streamKey = `${REDIS_KEY_PREFIX}function_calls:${targetFunctionName}:${workflowId}`
 
 					console.log("🌊 CALLFUNCTION: Call ID:", callId)
 					console.log("🌊 CALLFUNCTION: Stream key:", streamKey)
@@ -663,18 +1149,19 @@ export class CallFunction implements INodeType {
 
 						try {
 							console.log("⚡⚡⚡ CALLFUNCTION: CALLING callFunctionWithInstantReadiness...")
-							console.log("⚡⚡⚡ CALLFUNCTION: Function name:", functionName)
+							console.log("⚡⚡⚡ CALLFUNCTION: Function name:", targetFunctionName)
 							console.log("⚡⚡⚡ CALLFUNCTION: Workflow ID:", workflowId)
 							console.log("⚡⚡⚡ CALLFUNCTION: Parameters:", functionParameters)
 							console.log("⚡⚡⚡ CALLFUNCTION: Timeout: 10000ms")
 
 							// This will return instantly if workers are available, or wait for pub/sub notification
 							const response = await enhancedRegistry.callFunctionWithInstantReadiness(
-								functionName,
+								targetFunctionName,
 								workflowId,
 								functionParameters,
 								item,
-								10000 // 10 second timeout
+								10000, // 10 second readiness timeout
+								callOptions
 							)
 
 							console.log("⚡⚡⚡ CALLFUNCTION: RECEIVED RESPONSE FROM callFunctionWithInstantReadiness:", response)
@@ -685,30 +1172,25 @@ export class CallFunction implements INodeType {
 							// Process the response
 							if (!response.success) {
 								console.log("❌❌❌ CALLFUNCTION: RESPONSE INDICATES FAILURE:", response.error)
-								throw new NodeOperationError(this.getNode(), `Function call failed: ${response.error}`)
+								throw createCallFailedError(this.getNode(), response, itemIndex)
 							}
 
 							console.log("✅✅✅ CALLFUNCTION: RESPONSE INDICATES SUCCESS")
+							returned = { data: response.data, binary: response.binary }
 
-							// Start with the original item
-							let resultJson: any = { ...item.json }
-
-							// Store response ONLY if requested
-							if (response.data !== null && storeResponse && responseVariableName && responseVariableName.trim()) {
-								// Store under specific variable name
-								resultJson[responseVariableName] = response.data
-							}
-							// If storeResponse is false, don't include the function return value at all
-
-							const resultItem: INodeExecutionData = {
-								json: resultJson,
-								index: itemIndex,
-								binary: item.binary,
-							}
+							const resultItems = applyResponse(
+								this.getNode(),
+								responseOptions,
+								item,
+								itemIndex,
+								response.data,
+								item.binary,
+								await deserializeBinaryMap(this.helpers, response.binary)
+							)
 
-							logger.log("⚡ CallFunction: Created result item =", resultItem)
-							returnData.push(resultItem)
-							continue // Skip the old polling logic
+							logger.log("⚡ CallFunction: Created result items =", resultItems)
+							itemResults.push(...resultItems)
+							return itemResults // Skip the old polling logic
 						} catch (error) {
 							console.log("❌❌❌ CALLFUNCTION: ERROR IN callFunctionWithInstantReadiness:", error)
 							console.log("❌❌❌ CALLFUNCTION: Error message:", error.message)
@@ -719,7 +1201,7 @@ export class CallFunction implements INodeType {
 								// Function didn't become ready in time
 								throw new NodeOperationError(
 									this.getNode(),
-									`Function '${functionName}' not available. This usually means the Function node is not running or the workflow containing the Function node is not active.`
+									`Function '${targetFunctionName}' not available. This usually means the Function node is not running or the workflow containing the Function node is not active.`
 								)
 							}
 							console.log("❌❌❌ CALLFUNCTION: RETHROWING ERROR")
@@ -733,7 +1215,7 @@ export class CallFunction implements INodeType {
 
 					// Fallback to original polling logic if not using enhanced registry
 					logger.log("🔄 CallFunction: Falling back to polling logic")
-					let availableWorkers = await registry.getAvailableWorkers(functionName)
+					let availableWorkers = await registry.getAvailableWorkers(targetFunctionName)
 					let retryCount = 0
 					let maxRetries = 4
 					const retryDelay = 1000
@@ -751,33 +1233,33 @@ export class CallFunction implements INodeType {
 						logger.log(`🔄 CallFunction: ${retryMessage}`)
 
 						await new Promise((resolve) => setTimeout(resolve, retryDelay))
-						availableWorkers = await registry.getAvailableWorkers(functionName)
+						availableWorkers = await registry.getAvailableWorkers(targetFunctionName)
 						retryCount++
 					}
 
 					if (availableWorkers.length === 0) {
 						throw new NodeOperationError(
 							this.getNode(),
-							`Function '${functionName}' not found or no workers available after ${maxRetries} retries (${maxRetries} seconds). This usually means the Function node is not running or the workflow containing the Function node is not active.`
+							`Function '${targetFunctionName}' not found or no workers available after ${maxRetries} retries (${maxRetries} seconds). This usually means the Function node is not running or the workflow containing the Function node is not active.`
 						)
 					}
 
 					// CRITICAL: Clean up stale workers BEFORE health check to prevent accumulation
-					logger.log(`🧹 PREVENTION: Cleaning up stale workers for function ${functionName} before health check`)
-					const cleanedStaleCount = await registry.cleanupStaleWorkers(functionName, 30000) // 30 second timeout
+					logger.log(`🧹 PREVENTION: Cleaning up stale workers for function ${targetFunctionName} before health check`)
+					const cleanedStaleCount = await registry.cleanupStaleWorkers(targetFunctionName, 30000) // 30 second timeout
 					if (cleanedStaleCount > 0) {
 						logger.log(`🧹 PREVENTION: Cleaned up ${cleanedStaleCount} stale workers before health check`)
 						// Refresh worker list after cleanup
-						availableWorkers = await registry.getAvailableWorkers(functionName)
+						availableWorkers = await registry.getAvailableWorkers(targetFunctionName)
 					}
 
 					// Enhanced worker health check with diagnostic logging
 					const healthyWorkers = []
 					const staleWorkers = []
 
-					logger.log(`🔍 PREVENTION: Checking health of ${availableWorkers.length} workers for function ${functionName}`)
+					logger.log(`🔍 PREVENTION: Checking health of ${availableWorkers.length} workers for function ${targetFunctionName}`)
 					for (const workerId of availableWorkers) {
-						const isHealthy = await registry.isWorkerHealthy(workerId, functionName)
+						const isHealthy = await registry.isWorkerHealthy(workerId, targetFunctionName)
 						logger.log("🔍 PREVENTION: Worker health check - Worker:", workerId, "Healthy:", isHealthy)
 						if (isHealthy) {
 							healthyWorkers.push(workerId)
@@ -798,25 +1280,25 @@ export class CallFunction implements INodeType {
 
 						// Show detailed diagnostics before recovery
 						const diagnostics = await registry.listAllWorkersAndFunctions()
-						const functionWorkers = diagnostics.workers.filter((w: any) => w.functionName === functionName)
-						logger.log(`🚨 RECOVERY: Detailed worker status for function ${functionName}:`)
+						const functionWorkers = diagnostics.workers.filter((w: any) => w.functionName === targetFunctionName)
+						logger.log(`🚨 RECOVERY: Detailed worker status for function ${targetFunctionName}:`)
 						functionWorkers.forEach((w: any) => {
 							logger.log(`🚨 RECOVERY:   - Worker ${w.workerId}: ${w.isHealthy ? "healthy" : "stale"} (last seen: ${w.lastSeen}, age: ${w.age})`)
 						})
 
 						// Clean up stale workers first
-						const cleanedCount = await registry.cleanupStaleWorkers(functionName, 30000) // 30 second timeout
+						const cleanedCount = await registry.cleanupStaleWorkers(targetFunctionName, 30000) // 30 second timeout
 						logger.log(`🚨 RECOVERY: Cleaned up ${cleanedCount} stale workers`)
 
 						// Check if the function needs recovery
-						const recoveryCheck = await registry.detectMissingConsumer(functionName, targetScope)
+						const recoveryCheck = await registry.detectMissingConsumer(targetFunctionName, targetScope)
 						logger.log(`🚨 RECOVERY: Recovery check result:`, recoveryCheck)
 
 						if (recoveryCheck.needsRecovery) {
 							logger.warn(`🚨 RECOVERY: Function needs recovery - ${recoveryCheck.reason}`)
 
 							// Attempt to recover the function
-							const recoverySuccess = await registry.attemptFunctionRecovery(functionName, targetScope)
+							const recoverySuccess = await registry.attemptFunctionRecovery(targetFunctionName, targetScope)
 
 							if (recoverySuccess) {
 								logger.log("🚨 RECOVERY: Recovery attempt completed, waiting for function to restart...")
@@ -825,10 +1307,10 @@ export class CallFunction implements INodeType {
 								await new Promise((resolve) => setTimeout(resolve, 2000))
 
 								// Check again for healthy workers
-								const newAvailableWorkers = await registry.getAvailableWorkers(functionName)
+								const newAvailableWorkers = await registry.getAvailableWorkers(targetFunctionName)
 								const newHealthyWorkers = []
 								for (const workerId of newAvailableWorkers) {
-									const isHealthy = await registry.isWorkerHealthy(workerId, functionName)
+									const isHealthy = await registry.isWorkerHealthy(workerId, targetFunctionName)
 									if (isHealthy) {
 										newHealthyWorkers.push(workerId)
 									}
@@ -841,7 +1323,7 @@ export class CallFunction implements INodeType {
 									logger.error("🚨 RECOVERY: Recovery failed - still no healthy workers")
 									throw new NodeOperationError(
 										this.getNode(),
-										`Function '${functionName}' has no healthy workers available. Recovery attempted but failed. ` +
+										`Function '${targetFunctionName}' has no healthy workers available. Recovery attempted but failed. ` +
 											`This usually means the Function node trigger is not running. Try saving the workflow again or ` +
 											`deactivating and reactivating the workflow containing the Function node.`
 									)
@@ -850,20 +1332,20 @@ export class CallFunction implements INodeType {
 								logger.error("🚨 RECOVERY: Recovery attempt failed")
 								throw new NodeOperationError(
 									this.getNode(),
-									`Function '${functionName}' has no healthy workers available and recovery failed. ` +
+									`Function '${targetFunctionName}' has no healthy workers available and recovery failed. ` +
 										`This usually means the Function node trigger is not running. Try saving the workflow again or ` +
 										`deactivating and reactivating the workflow containing the Function node.`
 								)
 							}
 						} else {
-							throw new NodeOperationError(this.getNode(), `Function '${functionName}' has no healthy workers available. ${recoveryCheck.reason}`)
+							throw new NodeOperationError(this.getNode(), `Function '${targetFunctionName}' has no healthy workers available. ${recoveryCheck.reason}`)
 						}
 					}
 
 					logger.log("🌊 CallFunction: Healthy workers available:", healthyWorkers.length)
 
 					// Check if stream is ready before making the call
-					const groupName = `${REDIS_KEY_PREFIX}function_group:${functionName}:${workflowId}`
+					const groupName = `${REDIS_KEY_PREFIX}function_group:${targetFunctionName}:${workflowId}`
 					logger.log("🔍 DIAGNOSTIC: Checking if stream is ready")
 					logger.log("🔍 DIAGNOSTIC: Stream key:", streamKey)
 					logger.log("🔍 DIAGNOSTIC: Group name:", groupName)
@@ -886,38 +1368,42 @@ export class CallFunction implements INodeType {
 					}
 
 					// Add call to stream (no timeout)
-					await registry.addCall(streamKey, callId, functionName, functionParameters, item, responseChannel)
+					await registry.addCall(streamKey, callId, targetFunctionName, functionParameters, item, responseChannel, callOptions)
 
 					logger.log("🌊 CallFunction: Call added to stream, waiting for response...")
-					logger.log("🌊 CallFunction: Note: Function MUST use ReturnFromFunction node or this will wait FOREVER")
+					logger.log("🌊 CallFunction: Note: Function MUST use ReturnFromFunction node or this will wait until the call times out")
 
-					// Wait for response with NO timeout - will wait forever until ReturnFromFunction responds
-					const response = await registry.waitForResponse(responseChannel, 0) // 0 = infinite wait
+					// Wait for response - with a Timeout of 0 this waits forever until ReturnFromFunction responds
+					const response = await registry.waitForResponse(responseChannel, callOptions.timeout, callOptions.signal)
 
 					logger.log("🌊 CallFunction: Received response:", response)
 
 					if (!response.success) {
-						throw new NodeOperationError(this.getNode(), `Function call failed: ${response.error}`)
+						throw createCallFailedError(this.getNode(), response, itemIndex)
 					}
+					returned = { data: response.data, binary: response.binary }
 
-					// Start with the original item
-					let resultJson: any = { ...item.json }
-
-					// Store response ONLY if requested
-					if (response.data !== null && storeResponse && responseVariableName && responseVariableName.trim()) {
-						// Store under specific variable name
-						resultJson[responseVariableName] = response.data
-					}
-					// If storeResponse is false, don't include the function return value at all
+					const resultItems = applyResponse(this.getNode(), responseOptions, item, itemIndex, response.data, item.binary, await deserializeBinaryMap(this.helpers, response.binary))
 
-					const resultItem: INodeExecutionData = {
-						json: resultJson,
-						index: itemIndex,
-						binary: item.binary,
-					}
+					logger.log("🌊 CallFunction: Created result items =", resultItems)
+					itemResults.push(...resultItems)
+				}
+				return itemResults
+			}
 
-					logger.log("🌊 CallFunction: Created result item =", resultItem)
-					returnData.push(resultItem)
+			try {
+				output.results.push(
+					...(await runWithRetry(retryPolicy, async (attempt) => {
+						const callId = createCallId()
+						return await traceCall(trace, callId, targetFunctionName, () => attemptCall(attempt, callId))
+					}))
+				)
+				if (cacheKey && returned) {
+					const registry = await getFunctionRegistry()
+					// The call itself succeeded, so a cache that cannot be written only costs a later call
+					await registry.storeCachedResult(targetFunctionName, targetScope, cacheKey, returned, target.definition!.cache!.ttl).catch((error) => {
+						logger.warn("💾 CallFunction: Could not cache the result:", error.message)
+					})
 				}
 			} catch (error) {
 				console.log("❌❌❌ CALLFUNCTION: CAUGHT ERROR IN MAIN TRY-CATCH:", error)
@@ -925,29 +1411,17 @@ export class CallFunction implements INodeType {
 				console.log("❌❌❌ CALLFUNCTION: Error stack:", error.stack)
 				logger.error("🔧 CallFunction: Error calling function:", error)
 
-				// Create an error result item
-				const errorItem: INodeExecutionData = {
-					json: {
-						...item.json,
-						_functionCall: {
-							functionName,
-							parameters: functionParameters,
-							success: false,
-							error: error.message,
-						},
-					},
-					index: itemIndex,
-					binary: item.binary,
-				}
-
-				if (this.continueOnFail()) {
-					console.log("⚠️⚠️⚠️ CALLFUNCTION: Continue on fail enabled, adding error item")
-					returnData.push(errorItem)
-				} else {
-					console.log("❌❌❌ CALLFUNCTION: Continue on fail disabled, rethrowing error")
-					throw error
-				}
+				handleCallFailure(this, output, item, itemIndex, functionParameters, describeCallFailure(error, functionName, lastCallId, attempts), error)
 			}
+			await exportCallTrace(trace)
+			return output
+		}
+
+		const maxConcurrency = this.getNodeParameter("maxConcurrency", 0, 1) as number
+		logger.log(`Max concurrency =`, maxConcurrency)
+		for (const itemOutput of await mapWithConcurrency(items.length, maxConcurrency, callItem)) {
+			returnData.push(...itemOutput.results)
+			errorData.push(...itemOutput.errors)
 		}
 
 		console.log("🔥🔥🔥 CALLFUNCTION: ===== EXECUTION COMPLETED =====")
@@ -957,6 +1431,839 @@ export class CallFunction implements INodeType {
 		logger.log("🔥🔥🔥 CALLFUNCTION: ===== EXECUTION COMPLETED =====")
 
 		logger.log("� CallFunction: Returning data =", returnData)
-		return [returnData]
+		return errorOutput ? [returnData, errorData] : [returnData]
+	}
+}
+
+/**
+ * Extract the actual workflow ID from the workflowSelector value (resource locator object or plain string)
+ */
+function getSelectedWorkflowId(workflowSelector: any): string {
+	if (workflowSelector && typeof workflowSelector === "object" && workflowSelector.value) {
+		return workflowSelector.value
+	} else if (typeof workflowSelector === "string") {
+		return workflowSelector
+	}
+	return ""
+}
+
+/**
+ * Look up the definition of the function a Call Function node points at
+ * Workflow functions are referenced by function ID (or, in older nodes, by name) in the selected workflow,
+ * global functions by their global name
+ */
+async function findTargetFunction(
+	registry: FunctionRegistry,
+	functionSource: string,
+	functionReference: string,
+	workflowId: string,
+	functionVersion: string
+): Promise<{ definition: FunctionDefinition | null; functionName: string; renamedFrom?: string }> {
+	if (functionSource === "global") {
+		return { definition: await registry.getGlobalFunctionDefinition(functionReference, functionVersion), functionName: functionReference }
+	}
+	if (!workflowId) {
+		return { definition: null, functionName: functionReference }
+	}
+
+	const resolved = await registry.resolveFunctionName(functionReference, workflowId)
+	if (!resolved) {
+		return { definition: null, functionName: functionReference }
+	}
+
+	return {
+		definition: await registry.getFunctionDefinition(resolved.name, workflowId, functionVersion),
+		functionName: resolved.name,
+		renamedFrom: resolved.renamedFrom,
+	}
+}
+
+/**
+ * Work out the result cache key of an item call, or null when the function is not cacheable
+ * Applies the Invalidate cache mode once per function and execution, so results cached by earlier items are kept;
+ * parameters that fail to bind skip the cache so the function reports the problem
+ */
+async function prepareResultCache(
+	context: IExecuteFunctions,
+	itemIndex: number,
+	target: CallTarget,
+	functionParameters: Record<string, any>,
+	item: INodeExecutionData,
+	invalidations: Map<string, Promise<void>>
+): Promise<string | null> {
+	const definition = target.definition
+	if (!definition || !definition.cache) {
+		return null
+	}
+
+	if (context.getNodeParameter("cacheMode", itemIndex, "use") === "invalidate") {
+		const invalidationKey = `${target.targetFunctionName}:${target.workflowId}`
+		if (!invalidations.has(invalidationKey)) {
+			invalidations.set(
+				invalidationKey,
+				getFunctionRegistry().then((registry) => registry.invalidateFunctionCache(target.targetFunctionName, target.workflowId))
+			)
+		}
+		await invalidations.get(invalidationKey)
+	}
+
+	try {
+		return createCacheKey(definition.cache, bindParameters(definition.name, definition.parameters, definition.parametersSchema, functionParameters, { json: item.json }))
+	} catch (error) {
+		logger.log("💾 CallFunction: Not using the result cache, parameters do not bind:", error.message)
+		return null
+	}
+}
+
+/**
+ * Error for entered parameter values that cannot be converted to their declared types
+ * Carries the same structured error information as a failed parameter binding on the function side
+ */
+function createParameterTypeError(node: INode, issues: ParameterBindingIssue[], itemIndex: number): NodeOperationError {
+	const message = `Invalid parameter values: ${issues.map((issue) => `${issue.parameter} ${issue.message}`).join("; ")}`
+	const error = new NodeOperationError(node, message, { itemIndex, description: formatParameterBindingIssues(issues) })
+	error.context.errorInfo = { code: FunctionErrorCodes.PARAMETER_VALIDATION_FAILED, message, details: { issues } }
+	return error
+}
+
+/**
+ * Batch mode: send the input items in chunks, each chunk as one call the function runs in a single execution
+ * Output items keep the order of the input items
+ */
+async function executeBatchCalls(context: IExecuteFunctions, items: INodeExecutionData[]): Promise<CallOutput> {
+	const batchSize = context.getNodeParameter("batchSize", 0, 0) as number
+	const chunkSize = batchSize > 0 ? batchSize : items.length
+	const output: CallOutput = { results: [], errors: [] }
+
+	for (let chunkStart = 0; chunkStart < items.length; chunkStart += chunkSize) {
+		const chunkEnd = Math.min(chunkStart + chunkSize, items.length)
+
+		// Items that could not join the call (unknown function, invalid parameters) fail on their own, in input order
+		const skipped = new Map<number, any>()
+		const reportSkipped = (itemIndex: number, functionName: string) => {
+			const error = skipped.get(itemIndex)
+			handleCallFailure(context, output, items[itemIndex], itemIndex, {}, describeCallFailure(error, functionName, undefined, 0), error)
+		}
+
+		// The function is resolved once per chunk, from its first item
+		let target: CallTarget
+		try {
+			target = await resolveCallTarget(context, chunkStart)
+		} catch (error) {
+			const functionName = context.getNodeParameter("functionName", chunkStart, "") as string
+			for (let itemIndex = chunkStart; itemIndex < chunkEnd; itemIndex++) {
+				skipped.set(itemIndex, error)
+				reportSkipped(itemIndex, functionName)
+			}
+			continue
+		}
+
+		const entries: BatchCallEntry[] = []
+		// Input item index of each entry
+		const entryItems: number[] = []
+		for (let itemIndex = chunkStart; itemIndex < chunkEnd; itemIndex++) {
+			try {
+				entries.push({
+					parameters: await buildFunctionParameters(context, itemIndex, target.definition ? target.definition.parameters : []),
+					item: items[itemIndex],
+				})
+				entryItems.push(itemIndex)
+			} catch (error) {
+				skipped.set(itemIndex, error)
+			}
+		}
+		if (entries.length === 0) {
+			skipped.forEach((_error, itemIndex) => reportSkipped(itemIndex, target.functionName))
+			continue
+		}
+
+		logger.log(`📦 CallFunction: Batch call to ${target.targetFunctionName} with items ${chunkStart + 1}-${chunkEnd} of ${items.length}`)
+		// Only failures of the whole batch are retried; items the function failed are reported as they are
+		const idempotencyKey = createIdempotencyKey(context, chunkStart, "batch")
+		let attempts = 0
+		let callId: string | undefined
+		let response: BatchCallResponse
+		const trace = getCallTrace(items[chunkStart])
+		try {
+			response = await runWithRetry(getRetryPolicy(context, chunkStart), async (attempt) => {
+				attempts = attempt
+				const attemptCallId = createCallId()
+				callId = attemptCallId
+				return await traceCall(trace, attemptCallId, target.targetFunctionName, async () => {
+					const attemptResponse = await callFunctionBatch(context, target, entries, {
+						...getCallDeadline(items[chunkStart], getCallTimeout(context, chunkStart)),
+						...trace,
+						idempotencyKey,
+						attempt,
+						callId: attemptCallId,
+						signal: context.getExecutionCancelSignal(),
+					})
+					if (!attemptResponse.success) {
+						throw createCallFailedError(context.getNode(), attemptResponse, chunkStart)
+					}
+					return attemptResponse
+				})
+			})
+		} catch (error) {
+			const failure = describeCallFailure(error, target.functionName, callId, attempts)
+			for (let itemIndex = chunkStart; itemIndex < chunkEnd; itemIndex++) {
+				const entryIndex = entryItems.indexOf(itemIndex)
+				if (entryIndex === -1) {
+					reportSkipped(itemIndex, target.functionName)
+				} else {
+					handleCallFailure(context, output, items[itemIndex], itemIndex, entries[entryIndex].parameters, failure, error)
+				}
+			}
+			continue
+		} finally {
+			await exportCallTrace(trace)
+		}
+
+		const results = new Map((response.results || []).map((result) => [entryItems[result.index], result]))
+		for (let itemIndex = chunkStart; itemIndex < chunkEnd; itemIndex++) {
+			if (skipped.has(itemIndex)) {
+				reportSkipped(itemIndex, target.functionName)
+				continue
+			}
+			const result = results.get(itemIndex)
+			if (!result) {
+				continue
+			}
+			const item = items[itemIndex]
+
+			if (!result.success) {
+				const error = createCallFailedError(context.getNode(), result, itemIndex)
+				handleCallFailure(context, output, item, itemIndex, entries[result.index].parameters, describeCallFailure(error, target.functionName, callId, attempts), error)
+				continue
+			}
+
+			const returnedBinary = await deserializeBinaryMap(context.helpers, result.binary)
+			try {
+				output.results.push(...applyResponse(context.getNode(), getResponseOptions(context, itemIndex), item, itemIndex, result.data, item.binary, returnedBinary))
+			} catch (error) {
+				handleCallFailure(context, output, item, itemIndex, entries[result.index].parameters, describeCallFailure(error, target.functionName, callId, attempts), error)
+			}
+		}
+	}
+
+	logger.log(`📦 CallFunction: Batch calls complete, ${output.results.length} result items, ${output.errors.length} failed items`)
+	return output
+}
+
+/**
+ * Async mode: start one call per item and output a call handle instead of waiting for the result
+ * The handle is stored in the item's _callHandle field for Await Function Result
+ */
+async function executeAsyncCalls(context: IExecuteFunctions, items: INodeExecutionData[]): Promise<CallOutput> {
+	const output: CallOutput = { results: [], errors: [] }
+
+	for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+		const item = items[itemIndex]
+		let target: CallTarget | undefined
+		let parameters: Record<string, any> = {}
+		let attempts = 0
+		try {
+			target = await resolveCallTarget(context, itemIndex)
+			const callTarget = target
+			parameters = await buildFunctionParameters(context, itemIndex, target.definition ? target.definition.parameters : [])
+			const callParameters = parameters
+			const resultTtl = context.getNodeParameter("resultTtl", itemIndex, 300) as number
+			const idempotencyKey = createIdempotencyKey(context, itemIndex, "async")
+
+			// Only starting the call is retried; its outcome is collected later
+			const trace = getCallTrace(item)
+			const callId = await runWithRetry(getRetryPolicy(context, itemIndex), async (attempt) => {
+				attempts = attempt
+				const attemptCallId = createCallId()
+				// The caller does not see the call complete; ReturnFromFunction records when it returned
+				await recordCallSpan(trace, attemptCallId, { parentCallId: trace.parentCallId, functionName: callTarget.targetFunctionName, enqueuedAt: Date.now() })
+				return await startAsyncCall(context, callTarget, callParameters, item, { ...getCallDeadline(item, 0), ...trace, idempotencyKey, attempt, resultTtl, callId: attemptCallId })
+			})
+			logger.log(`⏳ CallFunction: Started asynchronous call ${callId} to ${target.targetFunctionName}`)
+
+			output.results.push({
+				json: {
+					...item.json,
+					_callHandle: {
+						callId,
+						functionName: target.functionName,
+						workflowId: target.workflowId,
+						startedAt: new Date().toISOString(),
+						expiresIn: resultTtl,
+					},
+				},
+				index: itemIndex,
+				pairedItem: { item: itemIndex },
+				binary: item.binary,
+			})
+		} catch (error) {
+			const functionName = target ? target.functionName : (context.getNodeParameter("functionName", itemIndex, "") as string)
+			// The call never started, so there is no call ID to report
+			handleCallFailure(context, output, item, itemIndex, parameters, describeCallFailure(error, functionName, undefined, attempts), error)
+		}
+	}
+
+	return output
+}
+
+/**
+ * Enqueue one call in the current registry mode without waiting for it, returning its call ID
+ */
+async function startAsyncCall(context: IExecuteFunctions, target: CallTarget, parameters: Record<string, any>, item: INodeExecutionData, options: CallOptions): Promise<string> {
+	if (!isQueueModeEnabled()) {
+		const registry = await getFunctionRegistry()
+		if (!target.definition) {
+			throw new NodeOperationError(context.getNode(), `Function '${target.targetFunctionName}' not found or no workers available`)
+		}
+		const callId = options.callId || createCallId()
+		registry.startCall(target.targetFunctionName, target.workflowId, parameters, item, callId, options)
+		return callId
+	}
+
+	const enhancedRegistry = await getEnhancedFunctionRegistry()
+	if (enhancedRegistry instanceof EnhancedFunctionRegistry) {
+		try {
+			return await enhancedRegistry.startCallWithInstantReadiness(target.targetFunctionName, target.workflowId, parameters, item, 10000, options)
+		} catch (error) {
+			if (error.message.includes("not ready after")) {
+				throw new NodeOperationError(
+					context.getNode(),
+					`Function '${target.targetFunctionName}' not available. This usually means the Function node is not running or the workflow containing the Function node is not active.`
+				)
+			}
+			throw error
+		}
+	}
+
+	const registry = await getFunctionRegistry()
+	const callId = options.callId || createCallId()
+	const streamKey = `${REDIS_KEY_PREFIX}function_calls:${target.targetFunctionName}:${target.workflowId}`
+	await registry.addCall(streamKey, callId, target.targetFunctionName, parameters, item, `${REDIS_KEY_PREFIX}function:response:${callId}`, options)
+	return callId
+}
+
+/**
+ * Send one batch call in the current registry mode
+ */
+async function callFunctionBatch(context: IExecuteFunctions, target: CallTarget, entries: BatchCallEntry[], options: CallOptions): Promise<BatchCallResponse> {
+	if (!isQueueModeEnabled()) {
+		const registry = await getFunctionRegistry()
+		return await registry.callFunctionBatch(target.targetFunctionName, target.workflowId, entries, options)
+	}
+
+	const enhancedRegistry = await getEnhancedFunctionRegistry()
+	if (enhancedRegistry instanceof EnhancedFunctionRegistry) {
+		try {
+			return await enhancedRegistry.callFunctionBatchWithInstantReadiness(target.targetFunctionName, target.workflowId, entries, 10000, options)
+		} catch (error) {
+			if (error.message.includes("not ready after")) {
+				throw new NodeOperationError(
+					context.getNode(),
+					`Function '${target.targetFunctionName}' not available. This usually means the Function node is not running or the workflow containing the Function node is not active.`
+				)
+			}
+			throw error
+		}
+	}
+
+	const registry = await getFunctionRegistry()
+	const callId = options.callId || createCallId()
+	const streamKey = `${REDIS_KEY_PREFIX}function_calls:${target.targetFunctionName}:${target.workflowId}`
+	await registry.addBatchCall(streamKey, callId, target.targetFunctionName, entries, `${REDIS_KEY_PREFIX}function:response:${callId}`, options)
+	return await registry.waitForBatchResults(callId, entries.length, options.timeout, options.signal)
+}
+
+/**
+ * Deadline and timeout of one call attempt: the node's own timeout, tightened by the deadline of the function call
+ * this node runs in (read from the _functionCall metadata of the item), so nested calls share the caller's budget
+ */
+function getCallDeadline(item: INodeExecutionData, timeout: number): { timeout: number; deadline?: number } {
+	const functionCall = item.json._functionCall as { deadline?: number } | undefined
+	const inherited = functionCall && typeof functionCall.deadline === "number" ? functionCall.deadline : undefined
+	const own = timeout > 0 ? Date.now() + timeout : undefined
+	const deadline = own !== undefined && inherited !== undefined ? Math.min(own, inherited) : (own ?? inherited)
+	if (deadline === undefined) {
+		return { timeout }
+	}
+	// A timeout of 0 waits forever, so a passed deadline still waits at least 1ms (the call is rejected before it is enqueued)
+	return { timeout: Math.max(deadline - Date.now(), 1), deadline }
+}
+
+/**
+ * Trace of a call: calls made inside a function join the trace of the call that started it (read from the item's
+ * _functionCall metadata) as its children; other calls start a new trace
+ */
+function getCallTrace(item: INodeExecutionData): CallTrace {
+	const functionCall = item.json._functionCall as { callId?: string; traceId?: string } | undefined
+	if (functionCall && typeof functionCall.traceId === "string" && functionCall.traceId !== "") {
+		return { traceId: functionCall.traceId, parentCallId: functionCall.callId }
+	}
+	return { traceId: createTraceId() }
+}
+
+/**
+ * Record a stage of a call's span; tracing problems never fail the call
+ */
+async function recordCallSpan(trace: CallTrace, callId: string, stage: Omit<CallSpan, "traceId" | "callId">): Promise<void> {
+	const registry = await getFunctionRegistry()
+	await registry.recordSpan({ traceId: trace.traceId, callId, ...stage }).catch((error) => {
+		logger.warn("🧭 CallFunction: Could not record call span:", error.message)
+	})
+}
+
+/**
+ * Run one call attempt as a span of the trace: the caller records when it enqueued the call and when it completed
+ */
+async function traceCall<T>(trace: CallTrace, callId: string, functionName: string, call: () => Promise<T>): Promise<T> {
+	await recordCallSpan(trace, callId, { parentCallId: trace.parentCallId, functionName, enqueuedAt: Date.now() })
+	try {
+		const result = await call()
+		await recordCallSpan(trace, callId, { completedAt: Date.now(), status: "ok" })
+		return result
+	} catch (error) {
+		await recordCallSpan(trace, callId, { completedAt: Date.now(), status: "error", errorCode: describeCallFailure(error, functionName, callId, 0).code })
+		throw error
+	}
+}
+
+/**
+ * Export the whole call tree once a top-level call is done; nested calls are part of their top-level call's trace
+ */
+async function exportCallTrace(trace: CallTrace): Promise<void> {
+	if (trace.parentCallId || !isTracingEnabled()) {
+		return
+	}
+	const registry = await getFunctionRegistry()
+	const spans = await registry.getTrace(trace.traceId).catch((error) => {
+		logger.warn("🧭 CallFunction: Could not read trace:", error.message)
+		return []
+	})
+	await exportTrace(spans)
+}
+
+/**
+ * Read the Timeout option in milliseconds (0 waits until the function returns)
+ * A Timeout of 0 seconds uses the default, so only -1 lets a call wait without a limit
+ */
+function getCallTimeout(context: IExecuteFunctions, itemIndex: number): number {
+	const timeoutSeconds = context.getNodeParameter("timeout", itemIndex, DEFAULT_CALL_TIMEOUT) as number
+	if (timeoutSeconds < 0) {
+		return 0
+	}
+	return Math.round((timeoutSeconds || DEFAULT_CALL_TIMEOUT) * 1000)
+}
+
+/**
+ * Read the retry policy for an item (Max Attempts of 1 means no retries)
+ */
+function getRetryPolicy(context: IExecuteFunctions, itemIndex: number): RetryPolicy {
+	const maxAttempts = context.getNodeParameter("maxAttempts", itemIndex, 1) as number
+	const retryOptions = context.getNodeParameter("retryOptions", itemIndex, {}) as Record<string, any>
+	return {
+		maxAttempts: Math.max(1, Math.floor(maxAttempts || 1)),
+		backoff: retryOptions.backoff === "fixed" ? "fixed" : "exponential",
+		delay: retryOptions.delay ?? 1000,
+		maxDelay: retryOptions.maxDelay ?? 30000,
+		jitter: retryOptions.jitter ?? true,
+		retryOn: (retryOptions.retryOn ?? ["timeout", "unavailable"]) as RetryCondition[],
+		errorCodes: ((retryOptions.errorCodes ?? "FUNCTION_ERROR") as string)
+			.split(",")
+			.map((code) => code.trim())
+			.filter((code) => code !== ""),
+	}
+}
+
+/**
+ * Idempotency key for one item's call, stable across its retries
+ * Built from the execution, node and item, so it differs between calls
+ */
+function createIdempotencyKey(context: IExecuteFunctions, itemIndex: number, kind: "item" | "batch" | "async" = "item"): string {
+	return `${context.getExecutionId()}:${context.getNode().id}:${kind}:${itemIndex}`
+}
+
+/**
+ * Route a failed call: to the Error output when it is enabled, otherwise onto the main output (Continue On Fail) or rethrown
+ */
+function handleCallFailure(
+	context: IExecuteFunctions,
+	output: CallOutput,
+	item: INodeExecutionData,
+	itemIndex: number,
+	parameters: Record<string, any>,
+	failure: CallFailure,
+	error: any
+): void {
+	if (context.getNodeParameter("errorOutput", 0, false) as boolean) {
+		logger.log(`🔧 CallFunction: Routing failed call of item ${itemIndex} to the Error output (${failure.origin}: ${failure.code})`)
+		output.errors.push(createErrorOutputItem(item, itemIndex, failure))
+		return
+	}
+	if (!context.continueOnFail()) {
+		throw error
+	}
+	output.results.push(createErrorItem(item, itemIndex, failure.functionName, parameters, error))
+}
+
+/**
+ * Build the item sent to the Error output: the input item with the structured failure under error
+ */
+function createErrorOutputItem(item: INodeExecutionData, itemIndex: number, failure: CallFailure): INodeExecutionData {
+	return {
+		json: { ...item.json, error: { ...failure } },
+		index: itemIndex,
+		pairedItem: { item: itemIndex },
+		binary: item.binary,
+	}
+}
+
+/**
+ * Build the output item for a failed call (used when Continue On Fail is enabled)
+ */
+function createErrorItem(item: INodeExecutionData, itemIndex: number, functionName: string, parameters: Record<string, any>, error: any): INodeExecutionData {
+	return {
+		json: {
+			...item.json,
+			_functionCall: {
+				functionName,
+				parameters,
+				success: false,
+				error: error.message,
+				...(error.context && error.context.errorInfo ? { errorInfo: error.context.errorInfo } : {}),
+			},
+		},
+		index: itemIndex,
+		pairedItem: { item: itemIndex },
+		binary: item.binary,
+	}
+}
+
+/**
+ * Run fn for every index from 0 to count - 1 with at most limit calls in flight
+ * Results are returned in index order; the first failure rejects (calls already in flight still finish)
+ */
+async function mapWithConcurrency<T>(count: number, limit: number, fn: (index: number) => Promise<T>): Promise<T[]> {
+	const results: T[] = new Array(count)
+	let nextIndex = 0
+	let failed = false
+
+	const runWorker = async () => {
+		while (!failed && nextIndex < count) {
+			const index = nextIndex++
+			try {
+				results[index] = await fn(index)
+			} catch (error) {
+				failed = true
+				throw error
+			}
+		}
+	}
+
+	const workerCount = Math.max(1, Math.min(Math.floor(limit) || 1, count))
+	await Promise.all(Array.from({ length: workerCount }, runWorker))
+	return results
+}
+
+/**
+ * Items produced by the calls of one node execution, per output
+ */
+interface CallOutput {
+	results: INodeExecutionData[]
+	// Failed calls, sent to the Error output when it is enabled
+	errors: INodeExecutionData[]
+}
+
+interface CallTarget {
+	// Function name as selected (global name for global functions)
+	functionName: string
+	// Registry name of the resolved version, e.g. "computeTax@2.1.0"
+	targetFunctionName: string
+	workflowId: string
+	definition: FunctionDefinition | null
+}
+
+/**
+ * How the return value is put on the output (Response Mode and its options)
+ */
+interface ResponseOptions {
+	mode: "none" | "store" | "merge" | "replace" | "split"
+	variableName: string
+	conflict: "preferReturn" | "preferItem" | "error"
+}
+
+/**
+ * Read the response options of an item; version 1 nodes only have Store Response
+ */
+function getResponseOptions(context: IExecuteFunctions, itemIndex: number): ResponseOptions {
+	const variableName = ((context.getNodeParameter("responseVariableName", itemIndex, "") as string) || "").trim()
+	if (context.getNode().typeVersion < 1.1) {
+		const storeResponse = context.getNodeParameter("storeResponse", itemIndex, false) as boolean
+		return { mode: storeResponse && variableName ? "store" : "none", variableName, conflict: "preferReturn" }
+	}
+	return {
+		mode: context.getNodeParameter("responseMode", itemIndex, "store") as ResponseOptions["mode"],
+		variableName: variableName || "functionResult",
+		conflict: context.getNodeParameter("mergeConflict", itemIndex, "preferReturn") as ResponseOptions["conflict"],
+	}
+}
+
+/**
+ * Build the output items for a returned value according to the Response Mode
+ * Every output item is paired with the input item that made the call, including each element of a split list
+ * Throws a NodeOperationError when the value does not fit the mode (e.g. merging an array) or a merge conflict fails the call
+ */
+function applyResponse(
+	node: INode,
+	options: ResponseOptions,
+	item: INodeExecutionData,
+	itemIndex: number,
+	returnValue: any,
+	callerBinary: IBinaryKeyData | undefined,
+	returnedBinary: IBinaryKeyData
+): INodeExecutionData[] {
+	const hasValue = returnValue !== undefined && returnValue !== null
+	const isObject = (value: any) => typeof value === "object" && value !== null && !Array.isArray(value)
+	// Replaced and split items only carry what the function returned
+	const toItem = (value: any): INodeExecutionData => ({
+		json: isObject(value) ? { ...value } : { [options.variableName]: value },
+		index: itemIndex,
+		pairedItem: { item: itemIndex },
+		binary: Object.keys(returnedBinary).length > 0 ? returnedBinary : undefined,
+	})
+
+	switch (options.mode) {
+		case "store": {
+			const json = hasValue ? { ...item.json, [options.variableName]: returnValue } : { ...item.json }
+			return [{ json, index: itemIndex, pairedItem: { item: itemIndex }, binary: mergeReturnedBinary(callerBinary, returnedBinary) }]
+		}
+		case "merge": {
+			if (hasValue && !isObject(returnValue)) {
+				throw new NodeOperationError(
+					node,
+					`Response Mode 'Merge Into Item' needs the function to return an object (got ${Array.isArray(returnValue) ? "an array" : typeof returnValue})`,
+					{
+						itemIndex,
+					}
+				)
+			}
+			const returned: Record<string, any> = hasValue ? returnValue : {}
+			const conflicts = Object.keys(returned).filter((key) => key in item.json)
+			if (conflicts.length > 0 && options.conflict === "error") {
+				throw new NodeOperationError(node, `Returned fields conflict with fields of the item: ${conflicts.join(", ")}`, { itemIndex })
+			}
+			const json = options.conflict === "preferItem" ? { ...returned, ...item.json } : { ...item.json, ...returned }
+			return [{ json, index: itemIndex, pairedItem: { item: itemIndex }, binary: mergeReturnedBinary(callerBinary, returnedBinary) }]
+		}
+		case "replace":
+			return [toItem(returnValue ?? {})]
+		case "split":
+			if (Array.isArray(returnValue)) {
+				return returnValue.map(toItem)
+			}
+			return [toItem(returnValue ?? {})]
+		default:
+			return [{ json: { ...item.json }, index: itemIndex, pairedItem: { item: itemIndex }, binary: mergeReturnedBinary(callerBinary, returnedBinary) }]
+	}
+}
+
+/**
+ * Combine the caller's binary properties with the ones returned by the function
+ * Returned properties replace caller properties of the same name
+ */
+function mergeReturnedBinary(callerBinary: IBinaryKeyData | undefined, returnedBinary: IBinaryKeyData): IBinaryKeyData | undefined {
+	if (Object.keys(returnedBinary).length === 0) {
+		return callerBinary
+	}
+	return { ...callerBinary, ...returnedBinary }
+}
+
+/**
+ * Build the node error for a failed call, keeping the function's structured error information
+ * Parameter validation failures list every failing field in the error description; timeouts get their own message
+ */
+function createCallFailedError(node: INode, response: { error?: string; errorInfo?: FunctionErrorInfo }, itemIndex: number): NodeOperationError {
+	const errorInfo = response.errorInfo
+	const issues: ParameterBindingIssue[] | undefined = errorInfo && errorInfo.code === FunctionErrorCodes.PARAMETER_VALIDATION_FAILED ? errorInfo.details?.issues : undefined
+
+	const timedOut = errorInfo !== undefined && errorInfo.code === FunctionErrorCodes.FUNCTION_CALL_TIMEOUT
+
+	let description: string | undefined
+	if (issues && issues.length > 0) {
+		description = formatParameterBindingIssues(issues)
+	} else if (timedOut) {
+		description = "The function did not return in time. The call was abandoned, so a later return from the function is discarded."
+	}
+
+	const error = new NodeOperationError(node, timedOut ? `${response.error}` : `Function call failed: ${response.error}`, { itemIndex, description })
+	if (errorInfo) {
+		error.context.errorInfo = errorInfo
+	}
+	return error
+}
+
+/**
+ * Resolve the function an item calls: its source, name (following renames) and version
+ * Throws a NodeOperationError when the selection is incomplete or nothing matches
+ */
+async function resolveCallTarget(context: IExecuteFunctions, itemIndex: number): Promise<CallTarget> {
+	const functionSource = context.getNodeParameter("functionSource", itemIndex, "workflow") as string
+	const workflowSelector = functionSource === "global" ? "" : (context.getNodeParameter("workflowId", itemIndex) as any)
+	const functionName = context.getNodeParameter("functionName", itemIndex) as string
+	const functionVersion = ((context.getNodeParameter("functionVersion", itemIndex, "") as string) || "").trim()
+
+	// Extract the actual workflow ID from the selector object
+	const selectedWorkflowId = getSelectedWorkflowId(workflowSelector)
+
+	logger.log(`Function source =`, functionSource)
+	logger.log(`Selected workflow selector =`, workflowSelector)
+	logger.log(`Extracted workflow ID =`, selectedWorkflowId)
+	logger.log(`Function name =`, functionName)
+
+	if (functionSource !== "global" && !selectedWorkflowId) {
+		throw new NodeOperationError(context.getNode(), "Please select a workflow first.")
+	}
+
+	if (!functionName || functionName === "__no_functions__" || functionName === "__no_workflow_selected__" || functionName === "__activate_workflow__") {
+		throw new NodeOperationError(
+			context.getNode(),
+			"Please select a valid function. If no functions are available, make sure the selected workflow is active and contains Function nodes."
+		)
+	}
+
+	if (functionVersion && !isValidVersionRange(functionVersion)) {
+		throw new NodeOperationError(context.getNode(), `Function Version '${functionVersion}' is not a valid version or version range`, { itemIndex })
+	}
+
+	// Resolve the version to call - each version is registered under its own name (e.g. "computeTax@2.1.0")
+	const registry = await getFunctionRegistry()
+	const target = await findTargetFunction(registry, functionSource, functionName, selectedWorkflowId, functionVersion)
+	const functionDefinition = target.definition
+	if (target.renamedFrom) {
+		context.addExecutionHints({
+			message: `Function '${target.renamedFrom}' was renamed to '${target.functionName}'. Re-select it in the Function field to store its stable ID.`,
+			type: "warning",
+			location: "outputPane",
+		})
+	}
+	if (functionSource === "global" && !functionDefinition && !functionVersion) {
+		throw new NodeOperationError(
+			context.getNode(),
+			`Global function '${functionName}' not found. Make sure the workflow publishing it is active and its Function node's Visibility is Global.`,
+			{ itemIndex }
+		)
+	}
+	if (functionVersion && !functionDefinition) {
+		const availableVersions =
+			functionSource === "global" ? await registry.getGlobalFunctionVersions(target.functionName) : await registry.getFunctionVersions(target.functionName, selectedWorkflowId)
+		throw new NodeOperationError(
+			context.getNode(),
+			`No version of function '${target.functionName}' matches '${functionVersion}'. Available versions: ${availableVersions.length > 0 ? availableVersions.join(", ") : "none"}`,
+			{ itemIndex }
+		)
+	}
+	const targetFunctionName = functionDefinition ? qualifyFunctionName(functionDefinition.name, functionDefinition.version) : functionName
+	// Global functions are called in the workflow that hosts them
+	const workflowId = functionSource === "global" && functionDefinition ? functionDefinition.workflowId : selectedWorkflowId
+	logger.log(`Target function =`, targetFunctionName, `in workflow`, workflowId)
+
+	return { functionName, targetFunctionName, workflowId, definition: functionDefinition }
+}
+
+/**
+ * Build the parameters an item passes to the function, from JSON or the individual parameter list
+ * Binary parameters are given as a binary property name of the item and replaced with the file itself
+ */
+async function buildFunctionParameters(context: IExecuteFunctions, itemIndex: number, functionParameterDefs: FunctionParameter[]): Promise<Record<string, any>> {
+	const parameterMode = context.getNodeParameter("parameterMode", itemIndex) as string
+	logger.log(`Parameter mode =`, parameterMode)
+
+	const parameterDefsByName = new Map(functionParameterDefs.map((param) => [param.name, param]))
+
+	// Prepare parameters to pass to the function
+	let functionParameters: Record<string, any> = {}
+
+	if (parameterMode === "json") {
+		const parametersJson = context.getNodeParameter("parametersJson", itemIndex) as string
+		logger.log("🔧 CallFunction: Raw JSON parameters =", parametersJson)
+		try {
+			functionParameters = JSON.parse(parametersJson)
+		} catch (error) {
+			throw new NodeOperationError(context.getNode(), `Invalid JSON in parameters: ${error}`)
+		}
+	} else {
+		// Individual parameters mode
+		const parameters = context.getNodeParameter("parameters", itemIndex, {}) as any
+		const parameterList = parameters.parameter || []
+		logger.log("🔧 CallFunction: Parameter list =", parameterList)
+
+		// Validate parameters and filter out invalid ones
+		const validParameters = []
+		const invalidParameters = []
+		const typeIssues: ParameterBindingIssue[] = []
+
+		for (const param of parameterList) {
+			const paramName = param.name
+			// A selected option value takes precedence over the free-text value
+			const paramValue = param.optionValue !== undefined && param.optionValue !== "" ? param.optionValue : param.value
+
+			// Skip special placeholder values
+			if (paramName === "__no_params_available__" || paramName === "__function_changed__" || paramName === "__clear_parameters__") {
+				continue
+			}
+
+			// Check if parameter is valid for this function
+			const paramDef = parameterDefsByName.get(paramName)
+			if (!paramDef) {
+				invalidParameters.push(paramName)
+				continue
+			}
+
+			// An empty Value means the parameter was not provided, so the function's default applies; string parameters
+			// can opt in to receiving the empty string
+			if (paramValue === "" && !(paramDef.type === "string" && param.sendEmptyValue === true)) {
+				continue
+			}
+
+			// Convert the entered value to the declared type; binary values stay property names until serialized below
+			if (paramValue === undefined || paramValue === null || paramDef.type === "binary") {
+				functionParameters[paramName] = paramValue
+			} else {
+				try {
+					functionParameters[paramName] = coerceParameterValue(paramDef.type, paramValue)
+				} catch (error) {
+					typeIssues.push({ parameter: paramName, code: "type", message: error.message })
+					continue
+				}
+			}
+			validParameters.push(paramName)
+		}
+
+		if (typeIssues.length > 0) {
+			throw createParameterTypeError(context.getNode(), typeIssues, itemIndex)
+		}
+
+		// Warn about invalid parameters
+		if (invalidParameters.length > 0) {
+			logger.warn("🔧 CallFunction: Invalid parameters detected (function may have changed):", invalidParameters)
+			logger.log("🔧 CallFunction: Valid parameters for function:", Array.from(parameterDefsByName.keys()))
+		}
+
+		logger.log("🔧 CallFunction: Valid parameters used:", validParameters)
 	}
+
+	// Binary parameters are given as a binary property name of the input item - send the file itself
+	for (const param of functionParameterDefs) {
+		const binaryPropertyName = functionParameters[param.name]
+		if (param.type !== "binary" || typeof binaryPropertyName !== "string" || binaryPropertyName === "") {
+			continue
+		}
+		try {
+			functionParameters[param.name] = await serializeBinaryProperty(context, itemIndex, binaryPropertyName)
+		} catch (error) {
+			throw new NodeOperationError(context.getNode(), `Binary parameter '${param.name}': ${error.message}`, { itemIndex })
+		}
+	}
+
+	logger.log("🔧 CallFunction: Final parameters =", functionParameters)
+
+	return functionParameters
 }
@@ -0,0 +1,153 @@
+import { createHash, randomBytes } from "crypto"
+import { appendFile } from "fs/promises"
+import { functionRegistryLogger as logger } from "./Logger"
+
+/**
+ * Trace context of a call: calls made inside a function share the trace of the call that started it
+ */
+export interface CallTrace {
+	traceId: string
+	// Call ID of the function call the caller runs in (none for top-level calls)
+	parentCallId?: string
+}
+
+/**
+ * What the registry records about one call; each stage is written by the process that reaches it
+ */
+export interface CallSpan {
+	traceId: string
+	callId: string
+	parentCallId?: string
+	functionName?: string
+	// Epoch milliseconds of each stage: the caller enqueues, a worker picks the call up, ReturnFromFunction returns, the caller completes
+	enqueuedAt?: number
+	pickedUpAt?: number
+	returnedAt?: number
+	completedAt?: number
+	workerId?: string
+	status?: "ok" | "error"
+	errorCode?: string
+}
+
+/**
+ * Where finished traces are sent, from the FUNCTION_TRACE_EXPORTER environment variable
+ * - otlp: POST to an OTLP/HTTP collector (FUNCTION_TRACE_OTLP_ENDPOINT, default http://localhost:4318/v1/traces)
+ * - file: append one OTLP line per trace to FUNCTION_TRACE_FILE (default function-traces.jsonl)
+ * - none: record spans for getTrace without exporting them
+ * Unset disables span recording; trace IDs are still passed on
+ */
+export type TraceExporter = "otlp" | "file" | "none"
+
+/**
+ * Trace IDs and span IDs use the OpenTelemetry formats (32 and 16 hex characters)
+ */
+export function createTraceId(): string {
+	return randomBytes(16).toString("hex")
+}
+
+/**
+ * Span ID of a call, derived from its call ID so any process can link a child to its parent
+ */
+export function getSpanId(callId: string): string {
+	return createHash("sha256").update(callId).digest("hex").slice(0, 16)
+}
+
+export function getTraceExporter(): TraceExporter | null {
+	const exporter = (process.env.FUNCTION_TRACE_EXPORTER || "").trim().toLowerCase()
+	return exporter === "otlp" || exporter === "file" || exporter === "none" ? exporter : null
+}
+
+export function isTracingEnabled(): boolean {
+	return getTraceExporter() !== null
+}
+
+/**
+ * Convert the spans of a trace to an OTLP/JSON ExportTraceServiceRequest
+ */
+export function toOtlpTrace(spans: CallSpan[]): Record<string, any> {
+	return {
+		resourceSpans: [
+			{
+				resource: { attributes: [{ key: "service.name", value: { stringValue: "n8n-nodes-function" } }] },
+				scopeSpans: [{ scope: { name: "n8n-nodes-function" }, spans: spans.map(toOtlpSpan) }],
+			},
+		],
+	}
+}
+
+/**
+ * Send a finished trace to the configured exporter
+ * Export failures are logged and never fail the call
+ */
+export async function exportTrace(spans: CallSpan[]): Promise<void> {
+	const exporter = getTraceExporter()
+	if (!exporter || exporter === "none" || spans.length === 0) {
+		return
+	}
+
+	try {
+		const body = JSON.stringify(toOtlpTrace(spans))
+		if (exporter === "file") {
+			await appendFile(process.env.FUNCTION_TRACE_FILE || "function-traces.jsonl", `${body}\n`)
+		} else {
+			const response = await fetch(process.env.FUNCTION_TRACE_OTLP_ENDPOINT || "http://localhost:4318/v1/traces", {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body,
+			})
+			if (!response.ok) {
+				throw new Error(`collector answered ${response.status}`)
+			}
+		}
+		logger.log(`🧭 TRACING: Exported trace ${spans[0].traceId} (${spans.length} spans) to ${exporter}`)
+	} catch (error) {
+		logger.warn(`🧭 TRACING: Could not export trace ${spans[0].traceId}:`, error.message)
+	}
+}
+
+function toOtlpSpan(span: CallSpan): Record<string, any> {
+	const start = span.enqueuedAt ?? span.pickedUpAt ?? span.returnedAt ?? 0
+	const end = span.completedAt ?? span.returnedAt ?? start
+	const attributes: Array<{ key: string; value: Record<string, any> }> = [{ key: "function.call_id", value: { stringValue: span.callId } }]
+	if (span.functionName) {
+		attributes.push({ key: "function.name", value: { stringValue: span.functionName } })
+	}
+	if (span.workerId) {
+		attributes.push({ key: "function.worker_id", value: { stringValue: span.workerId } })
+	}
+	if (span.enqueuedAt !== undefined && span.pickedUpAt !== undefined) {
+		attributes.push({ key: "function.queue_ms", value: { intValue: String(span.pickedUpAt - span.enqueuedAt) } })
+	}
+	if (span.enqueuedAt !== undefined && span.completedAt !== undefined) {
+		attributes.push({ key: "function.total_ms", value: { intValue: String(span.completedAt - span.enqueuedAt) } })
+	}
+	if (span.errorCode) {
+		attributes.push({ key: "function.error_code", value: { stringValue: span.errorCode } })
+	}
+
+	const stages = [
+		["enqueue", span.enqueuedAt],
+		["pickup", span.pickedUpAt],
+		["return", span.returnedAt],
+	] as const
+	const events = stages.filter(([, time]) => time !== undefined).map(([name, time]) => ({ name, timeUnixNano: toUnixNano(time!) }))
+
+	return {
+		traceId: span.traceId,
+		spanId: getSpanId(span.callId),
+		...(span.parentCallId ? { parentSpanId: getSpanId(span.parentCallId) } : {}),
+		name: span.functionName || span.callId,
+		// SPAN_KIND_CLIENT: the span covers the call as the caller sees it
+		kind: 3,
+		startTimeUnixNano: toUnixNano(start),
+		endTimeUnixNano: toUnixNano(end),
+		attributes,
+		events,
+		// STATUS_CODE_OK / STATUS_CODE_ERROR, unset while the call has not completed
+		status: span.status ? { code: span.status === "ok" ? 1 : 2, ...(span.errorCode ? { message: span.errorCode } : {}) } : {},
+	}
+}
+
+function toUnixNano(milliseconds: number): string {
+	return `${Math.round(milliseconds)}000000`
+}
@@ -0,0 +1,89 @@
+import { type INodeExecutionData, NodeConnectionType, type IExecuteFunctions, type INodeType, type INodeTypeDescription, NodeOperationError } from "n8n-workflow"
+import { getFunctionRegistry } from "../FunctionRegistryFactory"
+import { functionRegistryLogger as logger } from "../Logger"
+import { FunctionErrorCodes } from "../FunctionCallError"
+
+export class CheckFunctionCancellation implements INodeType {
+	description: INodeTypeDescription = {
+		displayName: "Check Function Cancellation",
+		name: "checkFunctionCancellation",
+		icon: "fa:ban",
+		group: ["transform"],
+		version: 1,
+		description: "Stop a function's execution, or branch, when the execution that called it was stopped",
+		defaults: {
+			name: "Check Function Cancellation",
+			color: "#ff6d5a",
+		},
+		inputs: [NodeConnectionType.Main],
+		outputs: `={{ $parameter["onCancelled"] === "route" ? [{ type: "${NodeConnectionType.Main}", displayName: "Active" }, { type: "${NodeConnectionType.Main}", displayName: "Cancelled" }] : ["${NodeConnectionType.Main}"] }}`,
+		properties: [
+			{
+				displayName: "On Cancelled",
+				name: "onCancelled",
+				type: "options",
+				options: [
+					{
+						name: "Stop Execution",
+						value: "stop",
+						description: "Fail with a CALL_CANCELLED error so the function stops running",
+					},
+					{
+						name: "Route to Cancelled Output",
+						value: "route",
+						description: "Send items of cancelled calls to a second output",
+					},
+				],
+				default: "stop",
+				description: "What to do with items whose call was cancelled. Items of active calls pass through unchanged.",
+			},
+			{
+				displayName: "Call ID",
+				name: "callId",
+				type: "string",
+				default: "={{ $json._functionCall.callId }}",
+				description: "Call ID to check. Defaults to the call that started this function execution.",
+			},
+		],
+	}
+
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData()
+		const onCancelled = this.getNodeParameter("onCancelled", 0, "stop") as string
+		const registry = await getFunctionRegistry()
+		const activeData: INodeExecutionData[] = []
+		const cancelledData: INodeExecutionData[] = []
+		// Items of one call usually share its call ID, so each call is checked once
+		const cancelled = new Map<string, boolean>()
+
+		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+			const callId = this.getNodeParameter("callId", itemIndex, "") as string
+			if (typeof callId !== "string" || callId.trim() === "") {
+				throw new NodeOperationError(this.getNode(), "No call ID to check. Use this node after a Function node, or set Call ID.", { itemIndex })
+			}
+
+			if (!cancelled.has(callId)) {
+				cancelled.set(callId, await registry.isCallCancelled(callId))
+			}
+			const output = { ...items[itemIndex], pairedItem: { item: itemIndex } }
+			if (!cancelled.get(callId)) {
+				activeData.push(output)
+				continue
+			}
+
+			logger.log("🛑 CheckFunctionCancellation: Call was cancelled:", callId)
+			if (onCancelled === "route") {
+				cancelledData.push(output)
+				continue
+			}
+			const error = new NodeOperationError(this.getNode(), `Function call ${callId} was cancelled by its caller`, {
+				itemIndex,
+				description: "The execution that called this function was stopped, so its result is no longer needed.",
+			})
+			error.context.errorInfo = { code: FunctionErrorCodes.CALL_CANCELLED, message: error.message, details: { callId } }
+			throw error
+		}
+
+		return onCancelled === "route" ? [activeData, cancelledData] : [activeData]
+	}
+}
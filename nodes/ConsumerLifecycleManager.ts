@@ -1,8 +1,9 @@
 import { createClient, RedisClientType } from "redis"
-import { isQueueModeEnabled, RedisConfig } from "./FunctionRegistryFactory"
+import { getFunctionRegistry, isQueueModeEnabled, RedisConfig } from "./FunctionRegistryFactory"
 import { functionRegistryLogger as logger } from "./Logger"
 import { ConsumerStateManager, ConsumerState } from "./ConsumerStateManager"
 import { NotificationManager, NotificationListener } from "./NotificationManager"
+import { FunctionErrorCodes } from "./FunctionCallError"
 
 export interface ConsumerConfig {
 	functionName: string
@@ -547,6 +548,31 @@ export class ConsumerLifecycleManager {
 		}
 	}
 
+	/**
+	 * Publish a DEADLINE_EXCEEDED result for a call skipped because its deadline passed
+	 */
+	private async publishDeadlineExceeded(messageData: any): Promise<void> {
+		if (!messageData.responseChannel) {
+			return
+		}
+		const deadline = Number(messageData.deadline)
+		const errorInfo = {
+			code: FunctionErrorCodes.DEADLINE_EXCEEDED,
+			message: `Deadline of the call to '${messageData.functionName}' passed ${Date.now() - deadline}ms before a worker picked it up`,
+			details: { deadline },
+		}
+		try {
+			const registry = await getFunctionRegistry()
+			await registry.publishResponse(
+				messageData.responseChannel,
+				{ success: false, error: errorInfo.message, errorInfo, callId: messageData.callId, timestamp: Date.now() },
+				messageData.resultTtl ? Number(messageData.resultTtl) : undefined
+			)
+		} catch (error) {
+			logger.error("🔄 LIFECYCLE: ❌ Could not publish deadline failure for call:", messageData.callId, error)
+		}
+	}
+
 	/**
 	 * Process a single message with timeout and error handling
 	 */
@@ -555,6 +581,17 @@ export class ConsumerLifecycleManager {
 		logger.log("🔄 LIFECYCLE: Processing message:", messageId)
 
 		try {
+			// The caller's deadline passed while the call was queued - don't run the function, but tell callers still
+			// waiting on the result (asynchronous calls, callers whose clock is behind) that it failed
+			if (messageData.deadline && Number(messageData.deadline) <= startTime) {
+				logger.warn("🔄 LIFECYCLE: ⏱️ Skipping message past its deadline:", messageId, "call:", messageData.callId)
+				await this.publishDeadlineExceeded(messageData)
+				if (this.client) {
+					await this.client.xAck(this.config.streamKey, this.config.groupName, messageId)
+				}
+				return
+			}
+
 			// Process message with timeout
 			await Promise.race([this.messageHandler(messageData), this.createTimeoutPromise(this.PROCESSING_TIMEOUT)])
 
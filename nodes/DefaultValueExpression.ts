@@ -0,0 +1,128 @@
+import * as vm from "vm"
+import { readFileSync } from "fs"
+import { dirname, join } from "path"
+
+/**
+ * Values an expression default can refer to
+ */
+export interface DefaultValueContext {
+	// Parameters already bound for this call (explicit values and earlier defaults)
+	params?: Record<string, any>
+	// JSON of the item that made the call
+	json?: Record<string, any>
+}
+
+const EXPRESSION_PATTERN = /\{\{([\s\S]+?)\}\}/g
+const EVALUATION_TIMEOUT_MS = 1000
+
+// Comma-separated names of the environment variables expressions can read through $env (none by default)
+const ENV_ALLOWLIST_VARIABLE = "FUNCTION_DEFAULT_ENV_ALLOWLIST"
+
+// Sets up the globals of an expression context from the serialized values placed on it; runs after luxon is loaded
+const PRELUDE = new vm.Script(`
+	globalThis.DateTime = luxon.DateTime
+	globalThis.Duration = luxon.Duration
+	globalThis.$now = DateTime.fromMillis(__now)
+	globalThis.$today = $now.startOf("day")
+	globalThis.$params = JSON.parse(__params)
+	globalThis.$json = JSON.parse(__json)
+	globalThis.$env = __envBlocked
+		? new Proxy({}, { get: () => { throw new Error("access to environment variables is blocked (N8N_BLOCK_ENV_ACCESS_IN_NODE)") } })
+		: JSON.parse(__env)
+	const stringify = JSON.stringify
+	// Results leave the context as text: dates and durations as ISO strings, everything else as JSON
+	globalThis.__serialize = (value) => {
+		if (DateTime.isDateTime(value) || Duration.isDuration(value)) return stringify(value.toISO())
+		return value === undefined ? undefined : stringify(value)
+	}
+	delete globalThis.__now
+	delete globalThis.__params
+	delete globalThis.__json
+	delete globalThis.__env
+	delete globalThis.__envBlocked
+`)
+
+let luxonScript: vm.Script | undefined
+
+/**
+ * Check whether a default value is an n8n-style expression (contains {{ }})
+ */
+export function isDefaultValueExpression(defaultValue: string | undefined): boolean {
+	return typeof defaultValue === "string" && /\{\{[\s\S]+?\}\}/.test(defaultValue)
+}
+
+/**
+ * Evaluate an expression default value at call time
+ *
+ * A template that is a single {{ }} block returns the raw result (so numbers, objects and
+ * arrays keep their type); anything else is interpolated into a string.
+ * Expressions can use $now, $today, DateTime, Duration, $params, $json and $env.
+ * They run in a separate context that only receives copies of these values (its own luxon included),
+ * and $env only holds the variables listed in FUNCTION_DEFAULT_ENV_ALLOWLIST.
+ * Throws an Error describing the failing expression.
+ */
+export function evaluateDefaultValueExpression(template: string, context: DefaultValueContext = {}): any {
+	const source = template.trim().replace(/^=/, "")
+	const sandbox = createSandbox(context)
+
+	const whole = /^\{\{([\s\S]+?)\}\}$/.exec(source.trim())
+	if (whole && !whole[1].includes("{{")) {
+		return runExpression(whole[1], sandbox)
+	}
+
+	return source.replace(EXPRESSION_PATTERN, (_match, expression: string) => {
+		const value = runExpression(expression, sandbox)
+		if (value === undefined || value === null) return ""
+		return typeof value === "object" ? JSON.stringify(value) : String(value)
+	})
+}
+
+function runExpression(expression: string, sandbox: vm.Context): any {
+	try {
+		const serialized = vm.runInContext(`__serialize((${expression.trim()}))`, sandbox, { timeout: EVALUATION_TIMEOUT_MS })
+		return serialized === undefined ? undefined : JSON.parse(serialized)
+	} catch (error) {
+		throw new Error(`expression {{ ${expression.trim()} }} failed: ${error instanceof Error ? error.message : String(error)}`)
+	}
+}
+
+function createSandbox(context: DefaultValueContext): vm.Context {
+	const sandbox = vm.createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } })
+	// Only primitives cross into the context, so expressions never hold objects of the n8n process
+	sandbox.__now = Date.now()
+	sandbox.__params = JSON.stringify(context.params || {})
+	sandbox.__json = JSON.stringify(context.json || {})
+	// Same switch n8n uses to keep workflows away from the environment
+	sandbox.__envBlocked = process.env.N8N_BLOCK_ENV_ACCESS_IN_NODE === "true"
+	sandbox.__env = JSON.stringify(allowedEnvironment())
+
+	getLuxonScript().runInContext(sandbox, { timeout: EVALUATION_TIMEOUT_MS })
+	PRELUDE.runInContext(sandbox, { timeout: EVALUATION_TIMEOUT_MS })
+	return sandbox
+}
+
+function allowedEnvironment(): Record<string, string> {
+	const names = (process.env[ENV_ALLOWLIST_VARIABLE] || "")
+		.split(",")
+		.map((name) => name.trim())
+		.filter((name) => name !== "")
+	const environment: Record<string, string> = {}
+	for (const name of names) {
+		if (process.env[name] !== undefined) {
+			environment[name] = process.env[name]!
+		}
+	}
+	return environment
+}
+
+/**
+ * The browser build of luxon defines a luxon global, so each context gets its own DateTime and Duration
+ */
+function getLuxonScript(): vm.Script {
+	if (!luxonScript) {
+		// The package only exports its node build, which sits next to the browser build
+		const path = join(dirname(require.resolve("luxon")), "..", "global", "luxon.js")
+		luxonScript = new vm.Script(readFileSync(path, "utf8"), { filename: path })
+	}
+	return luxonScript
+}
@@ -1,4 +1,4 @@
-import { FunctionRegistry, FunctionDefinition } from "./FunctionRegistry"
+import { FunctionRegistry, FunctionDefinition, BatchCallEntry, BatchCallResponse, CallOptions, createCallId } from "./FunctionRegistry"
 import { WorkerCoordinator } from "./WorkerCoordinator"
 import { NotificationManager } from "./NotificationManager"
 import { RedisConnectionManager } from "./RedisConnectionManager"
@@ -68,7 +68,7 @@ export class EnhancedFunctionRegistry extends FunctionRegistry {
 	/**
 	 * Enhanced function calling with instant readiness (no polling!)
 	 */
-	async callFunctionWithInstantReadiness(functionName: string, workflowId: string, parameters: any, item: any, timeout: number = 10000): Promise<any> {
+	async callFunctionWithInstantReadiness(functionName: string, workflowId: string, parameters: any, item: any, timeout: number = 10000, options: CallOptions = {}): Promise<any> {
 		console.log(`🚀🚀🚀 ENHANCED: callFunctionWithInstantReadiness CALLED`)
 		console.log(`🚀🚀🚀 ENHANCED: Function name: ${functionName}`)
 		console.log(`🚀🚀🚀 ENHANCED: Workflow ID: ${workflowId}`)
@@ -83,7 +83,7 @@ export class EnhancedFunctionRegistry extends FunctionRegistry {
 		logger.log(`🚀 ENHANCED: Worker ready instantly: ${workerInfo.workerId}`)
 
 		// Execute call via streams (existing functionality)
-		const callId = `call-${Date.now()}-${Math.random().toString(36).slice(2)}`
+		const callId = options.callId || createCallId()
 		const streamKey = `${REDIS_KEY_PREFIX}function_calls:${functionName}:${workflowId}`
 		const responseChannel = `${REDIS_KEY_PREFIX}function:response:${callId}`
 
@@ -93,7 +93,7 @@ export class EnhancedFunctionRegistry extends FunctionRegistry {
 
 		console.log(`🚀🚀🚀 ENHANCED: About to add call to stream...`)
 		// Add call to stream
-		await this.addCall(streamKey, callId, functionName, parameters, item, responseChannel)
+		await this.addCall(streamKey, callId, functionName, parameters, item, responseChannel, options)
 		console.log(`🚀🚀🚀 ENHANCED: Call added to stream successfully`)
 
 		console.log(`🚀🚀🚀 ENHANCED: Sending wake-up notification to Function nodes...`)
@@ -102,14 +102,61 @@ export class EnhancedFunctionRegistry extends FunctionRegistry {
 		console.log(`🚀🚀🚀 ENHANCED: Wake-up notification sent - Function nodes should check immediately`)
 		logger.log(`🚀 ENHANCED: Wake-up published for ${functionName} call ${callId}`)
 
-		console.log(`🚀🚀🚀 ENHANCED: About to wait for response (infinite wait)...`)
-		// Wait for response (existing functionality)
-		const response = await this.waitForResponse(responseChannel, 0) // 0 = infinite wait
+		console.log(`🚀🚀🚀 ENHANCED: About to wait for response (call timeout: ${options.timeout || 0}ms)...`)
+		// Wait for response (0 = infinite wait)
+		const response = await this.waitForResponse(responseChannel, options.timeout || 0, options.signal)
 		console.log(`🚀🚀🚀 ENHANCED: Response received:`, response)
 
 		return response
 	}
 
+	/**
+	 * Asynchronous counterpart of callFunctionWithInstantReadiness: enqueues the call and returns its call ID without waiting
+	 * The result is kept under result:<callId> for options.resultTtl seconds
+	 */
+	async startCallWithInstantReadiness(functionName: string, workflowId: string, parameters: any, item: any, timeout: number = 10000, options: CallOptions = {}): Promise<string> {
+		logger.log(`🚀 ENHANCED: Starting asynchronous call to ${functionName}`)
+
+		const workerInfo = await this.coordinator.waitForWorkerAvailability(functionName, workflowId, timeout)
+		logger.log(`🚀 ENHANCED: Worker ready instantly: ${workerInfo.workerId}`)
+
+		const callId = options.callId || createCallId()
+		const streamKey = `${REDIS_KEY_PREFIX}function_calls:${functionName}:${workflowId}`
+		const responseChannel = `${REDIS_KEY_PREFIX}function:response:${callId}`
+
+		await this.addCall(streamKey, callId, functionName, parameters, item, responseChannel, options)
+		await this.notificationManager.publishWakeUp(functionName, callId)
+		logger.log(`🚀 ENHANCED: Wake-up published for ${functionName} asynchronous call ${callId}`)
+
+		return callId
+	}
+
+	/**
+	 * Batch counterpart of callFunctionWithInstantReadiness: all entries travel in one stream message
+	 */
+	async callFunctionBatchWithInstantReadiness(
+		functionName: string,
+		workflowId: string,
+		entries: BatchCallEntry[],
+		timeout: number = 10000,
+		options: CallOptions = {}
+	): Promise<BatchCallResponse> {
+		logger.log(`🚀 ENHANCED: Calling ${functionName} with a batch of ${entries.length} items`)
+
+		const workerInfo = await this.coordinator.waitForWorkerAvailability(functionName, workflowId, timeout)
+		logger.log(`🚀 ENHANCED: Worker ready instantly: ${workerInfo.workerId}`)
+
+		const callId = options.callId || createCallId()
+		const streamKey = `${REDIS_KEY_PREFIX}function_calls:${functionName}:${workflowId}`
+		const responseChannel = `${REDIS_KEY_PREFIX}function:response:${callId}`
+
+		await this.addBatchCall(streamKey, callId, functionName, entries, responseChannel, options)
+		await this.notificationManager.publishWakeUp(functionName, callId)
+		logger.log(`🚀 ENHANCED: Wake-up published for ${functionName} batch call ${callId}`)
+
+		return await this.waitForBatchResults(callId, entries.length, options.timeout || 0, options.signal) // 0 = infinite wait
+	}
+
 	/**
 	 * Coordinate graceful shutdown
 	 */
@@ -1,10 +1,42 @@
-import { IExecuteFunctions, INodeExecutionData, INodeType, INodeTypeDescription, ITriggerFunctions, ITriggerResponse, NodeOperationError, NodeConnectionType } from "n8n-workflow"
+import {
+	BinaryHelperFunctions,
+	IBinaryKeyData,
+	IExecuteFunctions,
+	INode,
+	INodeExecutionData,
+	INodeType,
+	INodeTypeDescription,
+	ITriggerFunctions,
+	ITriggerResponse,
+	NodeOperationError,
+	NodeConnectionType,
+} from "n8n-workflow"
 
 import { functionRegistryLogger as logger } from "../Logger"
 import { isQueueModeEnabled, getRedisConfig, getEnhancedFunctionRegistry, REDIS_KEY_PREFIX } from "../FunctionRegistryFactory"
 import { ConsumerLifecycleManager, ConsumerConfig } from "../ConsumerLifecycleManager"
 import { RedisConnectionManager } from "../RedisConnectionManager"
 import { EnhancedFunctionRegistry } from "../EnhancedFunctionRegistry"
+import {
+	BatchCallEntry,
+	BatchCallResult,
+	CallOptions,
+	FunctionCacheSettings,
+	FunctionParameter,
+	FunctionRegistry,
+	createCallId,
+	FunctionVisibility,
+	ParameterConstraints,
+	qualifyFunctionName,
+} from "../FunctionRegistry"
+import { JsonSchema, parseJsonSchema } from "../JsonSchemaValidator"
+import { bindParameters } from "../ParameterBinding"
+import { FunctionErrorInfo, toFunctionErrorInfo } from "../FunctionCallError"
+import { deserializeBinary, describeSerializedBinary } from "../BinaryTransfer"
+import { isValidSemanticVersion } from "../SemanticVersion"
+
+// Dot-separated namespace segments, e.g. "billing.computeTax"
+const GLOBAL_NAME_PATTERN = /^[A-Za-z_][\w-]*(\.[A-Za-z_][\w-]*)*$/
 
 export class Function implements INodeType {
 	description: INodeTypeDescription = {
@@ -30,7 +62,7 @@ export class Function implements INodeType {
 		},
 		properties: [
 			{
-				displayName: "🏷️ To name your function, rename this Function node in your workflow.",
+				displayName: "🏷️ To name your function, rename this Function node in your workflow. Call Function nodes keep working after a rename.",
 				name: "functionNamingNotice",
 				type: "notice",
 				default: "",
@@ -43,6 +75,48 @@ export class Function implements INodeType {
 				placeholder: "Describe what this function does...",
 				description: "Optional description that will be shown in the CallFunction dropdown",
 			},
+			{
+				displayName: "Function Version",
+				name: "functionVersion",
+				type: "string",
+				default: "",
+				placeholder: "1.0.0",
+				description:
+					"Optional semantic version (MAJOR.MINOR.PATCH). Functions with the same name but different versions can be active side by side, and Call Function can pin an exact version or a range such as ^2.",
+			},
+			{
+				displayName: "Visibility",
+				name: "visibility",
+				type: "options",
+				options: [
+					{
+						name: "Workflow",
+						value: "workflow",
+						description: "Only callable by selecting this workflow in Call Function",
+					},
+					{
+						name: "Global",
+						value: "global",
+						description: "Also published under a global name that any workflow can call without knowing which workflow hosts it",
+					},
+				],
+				default: "workflow",
+				description: "Who can find this function",
+			},
+			{
+				displayName: "Global Name",
+				name: "globalName",
+				type: "string",
+				default: "",
+				required: true,
+				placeholder: "billing.computeTax",
+				description: "Name this function is published under. Use dots to group related functions into namespaces.",
+				displayOptions: {
+					show: {
+						visibility: ["global"],
+					},
+				},
+			},
 			{
 				displayName: "Parameters",
 				name: "parameters",
@@ -59,13 +133,105 @@ export class Function implements INodeType {
 						name: "parameter",
 						displayName: "Parameter",
 						values: [
+							{
+								displayName: "Allowed Values",
+								name: "allowedValues",
+								type: "string",
+								default: "",
+								placeholder: "eu-west, us-east, ap-south",
+								description: "Comma-separated list of the values this parameter accepts. Call Function shows them as a dropdown.",
+								displayOptions: {
+									show: {
+										type: ["options"],
+									},
+								},
+							},
+							{
+								displayName: "Constraints",
+								name: "constraints",
+								type: "collection",
+								placeholder: "Add Constraint",
+								default: {},
+								description: "Limits the value must satisfy. Calls that break them are rejected before the function runs, listing every failing field.",
+								displayOptions: {
+									show: {
+										type: ["array", "number", "options", "string"],
+									},
+								},
+								options: [
+									{
+										displayName: "Error Message",
+										name: "errorMessage",
+										type: "string",
+										default: "",
+										placeholder: "e.g. must be a quantity between 1 and 100",
+										description: "Reported instead of the generated messages when any constraint fails",
+									},
+									{
+										displayName: "Max Items",
+										name: "maxItems",
+										type: "number",
+										default: 0,
+										typeOptions: { minValue: 0 },
+										description: "Maximum number of items (arrays)",
+									},
+									{
+										displayName: "Max Length",
+										name: "maxLength",
+										type: "number",
+										default: 0,
+										typeOptions: { minValue: 0 },
+										description: "Maximum number of characters (strings)",
+									},
+									{
+										displayName: "Maximum",
+										name: "maximum",
+										type: "number",
+										default: 0,
+										description: "Largest allowed value (numbers)",
+									},
+									{
+										displayName: "Min Items",
+										name: "minItems",
+										type: "number",
+										default: 0,
+										typeOptions: { minValue: 0 },
+										description: "Minimum number of items (arrays)",
+									},
+									{
+										displayName: "Min Length",
+										name: "minLength",
+										type: "number",
+										default: 0,
+										typeOptions: { minValue: 0 },
+										description: "Minimum number of characters (strings)",
+									},
+									{
+										displayName: "Minimum",
+										name: "minimum",
+										type: "number",
+										default: 0,
+										description: "Smallest allowed value (numbers)",
+									},
+									{
+										displayName: "Pattern",
+										name: "pattern",
+										type: "string",
+										default: "",
+										placeholder: "e.g. ^[A-Z]{2}-\\d+$",
+										description: "Regular expression the value must match, anchor with ^ and $ to match the whole value (strings)",
+									},
+								],
+							},
 							{
 								displayName: "Default Value",
 								name: "defaultValue",
 								type: "string",
 								default: "",
-								placeholder: "Default value (optional)",
-								description: "Default value for this parameter",
+								placeholder: "e.g. 10 or {{ $now.toISO() }}",
+								description:
+									"Used when the caller leaves this parameter empty. Wrap code in {{ }} to compute it at call time, e.g. {{ $now.toISO() }}, {{ $params.firstName + ' ' + $params.lastName }} or {{ $env.REGION }}. $env only holds the variables listed in the FUNCTION_DEFAULT_ENV_ALLOWLIST environment variable.",
+								noDataExpression: true,
 							},
 							{
 								displayName: "Description",
@@ -75,6 +241,14 @@ export class Function implements INodeType {
 								placeholder: "Parameter description",
 								description: "Description of what this parameter does",
 							},
+							{
+								displayName: "JSON Schema",
+								name: "schema",
+								type: "json",
+								default: "",
+								description:
+									"Optional JSON Schema describing the shape of this parameter (e.g. nested object properties). Calls with a non-matching value are rejected before the function runs.",
+							},
 							{
 								displayName: "Parameter Name",
 								name: "name",
@@ -100,6 +274,11 @@ export class Function implements INodeType {
 										name: "Array",
 										value: "array",
 									},
+									{
+										name: "Binary",
+										value: "binary",
+										description: "A file. Callers pass the name of a binary property of their input item; the function receives it as a binary property named after the parameter.",
+									},
 									{
 										name: "Boolean",
 										value: "boolean",
@@ -112,6 +291,10 @@ export class Function implements INodeType {
 										name: "Object",
 										value: "object",
 									},
+									{
+										name: "Options",
+										value: "options",
+									},
 									{
 										name: "String",
 										value: "string",
@@ -124,6 +307,58 @@ export class Function implements INodeType {
 					},
 				],
 			},
+			{
+				displayName: "Parameters Schema",
+				name: "parametersSchema",
+				type: "json",
+				default: "",
+				description:
+					"Optional JSON Schema for the whole parameter set, validated against an object of all parameter values (after defaults). Use this for cross-parameter rules such as dependent fields.",
+			},
+			{
+				displayName: "Return Schema",
+				name: "returnSchema",
+				type: "json",
+				default: "",
+				description:
+					"Optional JSON Schema for the value this function returns. Return from Function validates its return value against it and sends a typed error to the caller on mismatch. Callers see the declared shape in the Call Function dropdown.",
+			},
+			{
+				displayName: "Cacheable",
+				name: "cacheable",
+				type: "boolean",
+				default: false,
+				description:
+					"Whether callers may reuse an earlier result for the same parameters instead of running the function again. Only turn this on for functions whose result depends on nothing but their parameters. Call Function uses cached results in Item mode.",
+			},
+			{
+				displayName: "Cache TTL (Seconds)",
+				name: "cacheTtl",
+				type: "number",
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 3600,
+				description: "How long a cached result stays valid",
+				displayOptions: {
+					show: {
+						cacheable: [true],
+					},
+				},
+			},
+			{
+				displayName: "Cache Key Parameters",
+				name: "cacheKeyParameters",
+				type: "string",
+				default: "",
+				placeholder: "customerId, region",
+				description: "Comma-separated parameters that identify a result. Leave empty to use all parameters.",
+				displayOptions: {
+					show: {
+						cacheable: [true],
+					},
+				},
+			},
 			{
 				displayName: "⚠️ IMPORTANT: Add a 'Return from Function' node or your function will run forever!",
 				name: "functionReturnNotice",
@@ -144,33 +379,70 @@ export class Function implements INodeType {
 		// Extract function description
 		const functionDescription = this.getNodeParameter("functionDescription") as string
 
+		// Extract the optional version; each version registers under its own name (e.g. "computeTax@2.1.0")
+		const functionVersion = ((this.getNodeParameter("functionVersion", "") as string) || "").trim()
+		if (functionVersion && !isValidSemanticVersion(functionVersion)) {
+			throw new NodeOperationError(this.getNode(), `Function Version '${functionVersion}' is not a valid semantic version (expected MAJOR.MINOR.PATCH, e.g. 1.0.0)`)
+		}
+		const qualifiedFunctionName = qualifyFunctionName(functionName, functionVersion || undefined)
+
+		// Extract visibility; global functions are also indexed under their global name
+		const visibility = this.getNodeParameter("visibility", "workflow") as FunctionVisibility
+		const globalName = visibility === "global" ? ((this.getNodeParameter("globalName", "") as string) || "").trim() : ""
+		if (visibility === "global" && !GLOBAL_NAME_PATTERN.test(globalName)) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Global Name '${globalName}' is not valid. Use letters, digits, '_' and '-', with dots between namespace segments (e.g. billing.computeTax).`
+			)
+		}
+
 		// Extract parameter definitions
 		const parametersConfig = this.getNodeParameter("parameters") as any
-		const parameters: Array<{
-			name: string
-			type: string
-			required: boolean
-			defaultValue: string
-			description: string
-		}> = []
-
-		if (parametersConfig && parametersConfig.parameter) {
-			for (const param of parametersConfig.parameter) {
-				parameters.push({
-					name: param.name,
-					type: param.type,
-					required: param.required || false,
-					defaultValue: param.defaultValue || "",
-					description: param.description || "",
-				})
+		const parameters: FunctionParameter[] = []
+
+		try {
+			if (parametersConfig && parametersConfig.parameter) {
+				for (const param of parametersConfig.parameter) {
+					parameters.push({
+						name: param.name,
+						type: param.type,
+						required: param.required || false,
+						defaultValue: param.defaultValue || "",
+						description: param.description || "",
+						schema: parseJsonSchema(param.schema, `JSON Schema of parameter '${param.name}'`),
+						options: param.type === "options" ? parseAllowedValues(param.allowedValues) : undefined,
+						constraints: parseParameterConstraints(this.getNode(), param.name, param.type, param.constraints),
+					})
+				}
 			}
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), error.message)
+		}
+
+		// Extract the optional schemas for the whole parameter set and the return value
+		let parametersSchema: JsonSchema | undefined
+		let returnSchema: JsonSchema | undefined
+		try {
+			parametersSchema = parseJsonSchema(this.getNodeParameter("parametersSchema", "") as string, "Parameters Schema")
+			returnSchema = parseJsonSchema(this.getNodeParameter("returnSchema", "") as string, "Return Schema")
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), error.message)
 		}
 
+		// Extract the cache settings of a cacheable (pure) function
+		const cache = parseCacheSettings(
+			this.getNode(),
+			this.getNodeParameter("cacheable", false) as boolean,
+			this.getNodeParameter("cacheTtl", 3600) as number,
+			this.getNodeParameter("cacheKeyParameters", "") as string,
+			parameters
+		)
+
 		logger.log("🚀 FUNCTION: ========================================")
 		logger.log("🚀 FUNCTION: trigger() called by n8n")
 		logger.log("🚀 FUNCTION: This happens during workflow activation or restart")
 		logger.log("🚀 FUNCTION: Starting Function node trigger")
-		logger.log("🚀 FUNCTION: Function name:", functionName)
+		logger.log("🚀 FUNCTION: Function name:", functionName, functionVersion ? `(version ${functionVersion})` : "")
 
 		// Check if queue mode is enabled
 		if (!isQueueModeEnabled()) {
@@ -186,61 +458,31 @@ export class Function implements INodeType {
 				// Use the single object parameter interface with execution function
 				await registry.registerFunction({
 					name: functionName,
+					version: functionVersion || undefined,
+					visibility,
+					globalName: globalName || undefined,
 					scope: workflowId,
 					code: "", // No code - this is a workflow trigger
 					parameters: parameters,
+					parametersSchema,
+					returnSchema,
+					cache,
 					workflowId: workflowId,
 					nodeId: this.getNode().id,
 					description: functionDescription || "",
-					executionFunction: async (callParameters: Record<string, any>, inputItem: any) => {
+					executionFunction: async (callParameters: Record<string, any>, inputItem: any, options: CallOptions = {}) => {
 						logger.log("🚀 FUNCTION: In-memory function called:", functionName, "with parameters:", callParameters)
 
-						// Process parameters according to function definition
-						const locals: Record<string, any> = {}
-
-						for (const param of parameters) {
-							const paramName = param.name
-							const paramType = param.type
-							const required = param.required
-							const defaultValue = param.defaultValue
-
-							let value = callParameters[paramName]
-
-							// Handle required parameters
-							if (required && (value === undefined || value === null)) {
-								throw new NodeOperationError(this.getNode(), `Required parameter '${paramName}' is missing`)
-							}
-
-							// Use default value if not provided
-							if (value === undefined || value === null) {
-								if (defaultValue !== "") {
-									try {
-										// Try to parse default value based on type
-										switch (paramType) {
-											case "number":
-												value = Number(defaultValue)
-												break
-											case "boolean":
-												value = defaultValue.toLowerCase() === "true"
-												break
-											case "object":
-											case "array":
-												value = JSON.parse(defaultValue)
-												break
-											default:
-												value = defaultValue
-										}
-									} catch (error) {
-										value = defaultValue // Fall back to string if parsing fails
-									}
-								}
-							}
-
-							locals[paramName] = value
-						}
+						// Bind parameters using the same rules as queue mode
+						const { locals, binary } = await extractBinaryParameters(
+							this.helpers,
+							parameters,
+							bindParameters(functionName, parameters, parametersSchema, callParameters, { json: inputItem.json })
+						)
 
 						// Generate a call ID for in-memory mode to track return values
-						const callId = `call-${Date.now()}-${Math.random().toString(36).slice(2)}`
+						const callId = options.callId || createCallId()
+						await recordCallPickup(registry, options.traceId, callId, this.getInstanceId() || "in-memory")
 
 						// Push current function execution context for ReturnFromFunction nodes
 						registry.pushCurrentFunctionExecution(callId)
@@ -255,17 +497,20 @@ export class Function implements INodeType {
 								...locals, // Function parameters as separate fields
 								_functionCall: {
 									callId,
-									functionName,
+									functionName: qualifiedFunctionName,
 									timestamp: Date.now(),
 									// For in-memory mode, we don't need Redis-specific fields
 									responseChannel: null,
 									messageId: null,
 									streamKey: null,
 									groupName: null,
+									...describeCallAttempt(options.idempotencyKey, options.attempt),
+									...describeCallDeadline(options.deadline),
+									...describeCallTrace(options.traceId, options.parentCallId),
 								},
 							},
 							index: 0,
-							binary: inputItem.binary,
+							binary: { ...inputItem.binary, ...binary },
 						}
 
 						logger.log("🚀 FUNCTION: Emitting output item to downstream nodes")
@@ -277,7 +522,8 @@ export class Function implements INodeType {
 						logger.log("🚀 FUNCTION: Note: Function will wait until ReturnFromFunction resolves return value")
 
 						// Wait for ReturnFromFunction to resolve the return value
-						const returnValue = await registry.waitForReturn(callId)
+						const returnValue = await registry.waitForReturn(callId, options.timeout, options.signal)
+						const returnBinary = registry.takeReturnBinary(callId)
 						logger.log("🚀 FUNCTION: ✅ Return value received:", returnValue)
 
 						// Return the same structure as queue mode - array of INodeExecutionData
@@ -290,15 +536,20 @@ export class Function implements INodeType {
 								...locals,
 								// Add the return value in a structured way
 								_functionReturn: returnValue,
+								// Binary properties returned by ReturnFromFunction (serialized)
+								...(returnBinary ? { _functionReturnBinary: returnBinary as any } : {}),
 								// Keep the function call metadata for CallFunction to process
 								_functionCall: {
 									callId,
-									functionName,
+									functionName: qualifiedFunctionName,
 									timestamp: Date.now(),
 									responseChannel: null,
 									messageId: null,
 									streamKey: null,
 									groupName: null,
+									...describeCallAttempt(options.idempotencyKey, options.attempt),
+									...describeCallDeadline(options.deadline),
+									...describeCallTrace(options.traceId, options.parentCallId),
 								},
 							},
 							index: 0,
@@ -307,6 +558,37 @@ export class Function implements INodeType {
 
 						return [finalOutputItem]
 					},
+					batchExecutionFunction: async (entries: BatchCallEntry[], options: CallOptions = {}) => {
+						logger.log("🚀 FUNCTION: In-memory batch call:", functionName, `(${entries.length} items)`)
+
+						const callId = options.callId || createCallId()
+						await recordCallPickup(registry, options.traceId, callId, this.getInstanceId() || "in-memory")
+						const { items, failures } = await prepareBatchItems(
+							this.helpers,
+							entries,
+							parameters,
+							parametersSchema,
+							{
+								callId,
+								functionName: qualifiedFunctionName,
+								timestamp: Date.now(),
+								responseChannel: null,
+								...describeCallAttempt(options.idempotencyKey, options.attempt),
+								...describeCallDeadline(options.deadline),
+								...describeCallTrace(options.traceId, options.parentCallId),
+							},
+							true
+						)
+
+						// Entries that failed binding are answered right away; the rest run in one execution
+						await registry.publishBatchResults(callId, failures)
+						if (items.length > 0) {
+							logger.log("🚀 FUNCTION: Emitting", items.length, "batch items to downstream nodes")
+							this.emit([items])
+						}
+
+						return await registry.waitForBatchResults(callId, entries.length, options.timeout, options.signal)
+					},
 				})
 
 				logger.log("🚀 FUNCTION: ✅ Function registered in in-memory registry")
@@ -317,7 +599,7 @@ export class Function implements INodeType {
 						logger.log("🚀 FUNCTION: Function node closed (in-memory mode)")
 						// Unregister from in-memory registry on close
 						try {
-							await registry.unregisterFunction(functionName, workflowId)
+							await registry.unregisterFunction(qualifiedFunctionName, workflowId)
 							logger.log("🚀 FUNCTION: ✅ Function unregistered from in-memory registry")
 						} catch (error) {
 							logger.warn("🚀 FUNCTION: ⚠️ Error unregistering from in-memory registry:", error)
@@ -340,14 +622,14 @@ export class Function implements INodeType {
 			const registry = await getEnhancedFunctionRegistry()
 
 			// Get ALL workers for this function (healthy and stale)
-			const allWorkers = await registry.getAvailableWorkers(functionName)
-			logger.log(`🚀 FUNCTION: Found ${allWorkers.length} existing workers for ${functionName}: [${allWorkers.join(", ")}]`)
+			const allWorkers = await registry.getAvailableWorkers(qualifiedFunctionName)
+			logger.log(`🚀 FUNCTION: Found ${allWorkers.length} existing workers for ${qualifiedFunctionName}: [${allWorkers.join(", ")}]`)
 
 			// Remove ALL existing workers to prevent race conditions
 			let cleanedCount = 0
 			for (const workerId of allWorkers) {
 				try {
-					await registry.unregisterWorker(workerId, functionName)
+					await registry.unregisterWorker(workerId, qualifiedFunctionName)
 					cleanedCount++
 					logger.log(`🚀 FUNCTION: ✅ Removed existing worker: ${workerId}`)
 				} catch (error) {
@@ -360,7 +642,7 @@ export class Function implements INodeType {
 			}
 
 			// Also clean up any stale workers that might not be in the workers set
-			const staleCleanedCount = await registry.cleanupStaleWorkers(functionName)
+			const staleCleanedCount = await registry.cleanupStaleWorkers(qualifiedFunctionName)
 			if (staleCleanedCount > 0) {
 				logger.log(`🚀 FUNCTION: ✅ Cleaned up ${staleCleanedCount} additional stale workers`)
 			}
@@ -387,26 +669,32 @@ export class Function implements INodeType {
 			// Create consumer configuration
 			const workflowId = this.getWorkflow().id || "unknown"
 			const consumerConfig: ConsumerConfig = {
-				functionName,
+				functionName: qualifiedFunctionName,
 				scope: workflowId,
-				streamKey: `${REDIS_KEY_PREFIX}function_calls:${functionName}:${workflowId}`,
-				groupName: `${REDIS_KEY_PREFIX}function_group:${functionName}:${workflowId}`,
+				streamKey: `${REDIS_KEY_PREFIX}function_calls:${qualifiedFunctionName}:${workflowId}`,
+				groupName: `${REDIS_KEY_PREFIX}function_group:${qualifiedFunctionName}:${workflowId}`,
 				processId: process.pid.toString(),
 				workerId: this.getInstanceId() || "unknown",
 			}
 
 			// Create message handler
 			const messageHandler = async (messageData: any) => {
-				return await processMessage(messageData, this.emit.bind(this))
+				return await processMessage(messageData, this.emit.bind(this), this.helpers, parameters, parametersSchema, consumerConfig.workerId)
 			}
 
 			// Register function in registry so CallFunction can find it
 			registry = await getEnhancedFunctionRegistry()
 			await registry.registerFunctionWithNotification({
 				name: functionName,
+				version: functionVersion || undefined,
+				visibility,
+				globalName: globalName || undefined,
 				scope: workflowId,
 				code: "", // No code - this is a workflow trigger
 				parameters: parameters, // Use extracted parameters
+				parametersSchema,
+				returnSchema,
+				cache,
 				workflowId: workflowId,
 				nodeId: this.getNode().id,
 				description: functionDescription || "", // Add the function description
@@ -429,7 +717,7 @@ export class Function implements INodeType {
 			// CRITICAL: Register this node as a worker for the function with instant notifications
 			workerId = lifecycleManager.getConsumerId()
 			if (workerId && registry instanceof EnhancedFunctionRegistry) {
-				await registry.registerWorkerWithInstantNotification(workerId, functionName, workflowId)
+				await registry.registerWorkerWithInstantNotification(workerId, qualifiedFunctionName, workflowId)
 				logger.log("🚀 FUNCTION: ✅ Worker registered with instant notifications:", workerId)
 				logger.log("🚀 FUNCTION: ✅ Worker is now available for CallFunction to find")
 
@@ -437,7 +725,7 @@ export class Function implements INodeType {
 				healthUpdateInterval = setInterval(async () => {
 					try {
 						if (workerId && registry) {
-							await registry.updateWorkerHealth(workerId, functionName)
+							await registry.updateWorkerHealth(workerId, qualifiedFunctionName)
 						}
 					} catch (error) {
 						logger.error("🚀 FUNCTION: ❌ Error updating worker health:", error)
@@ -455,7 +743,7 @@ export class Function implements INodeType {
 					logger.log("🚀 FUNCTION: closeFunction() called by n8n")
 					logger.log("🚀 FUNCTION: This happens during workflow changes or deactivation")
 					logger.log("🚀 FUNCTION: Starting ultra-lightweight shutdown (keep consumer active)...")
-					logger.log(`🚀 FUNCTION: Shutting down function: ${functionName}, worker: ${workerId}`)
+					logger.log(`🚀 FUNCTION: Shutting down function: ${qualifiedFunctionName}, worker: ${workerId}`)
 
 					try {
 						// Stop health updates - prevents worker from being marked healthy during shutdown
@@ -536,7 +824,14 @@ export class Function implements INodeType {
 /**
  * Process a message from the Redis stream by emitting data to connected nodes
  */
-async function processMessage(messageData: any, emitFunction: (data: INodeExecutionData[][]) => void): Promise<any> {
+async function processMessage(
+	messageData: any,
+	emitFunction: (data: INodeExecutionData[][]) => void,
+	helpers: Pick<BinaryHelperFunctions, "prepareBinaryData">,
+	parameters: FunctionParameter[],
+	parametersSchema: JsonSchema | undefined,
+	workerId: string
+): Promise<any> {
 	const startTime = Date.now()
 
 	try {
@@ -555,6 +850,18 @@ async function processMessage(messageData: any, emitFunction: (data: INodeExecut
 			throw new NodeOperationError(null as any, "Message missing callId")
 		}
 
+		// The caller was stopped before this worker took the call - acknowledge it without running the function
+		const registry = await getEnhancedFunctionRegistry()
+		if (await registry.isCallCancelled(callId)) {
+			logger.warn("🚀 FUNCTION: 🛑 Skipping cancelled call:", callId)
+			return { skipped: true, reason: "cancelled" }
+		}
+		await recordCallPickup(registry, messageData.traceId, callId, workerId)
+
+		if (messageData.batch) {
+			return await processBatchMessage(messageData, emitFunction, helpers, parameters, parametersSchema)
+		}
+
 		// Parse input data
 		let parsedInput
 		try {
@@ -571,20 +878,34 @@ async function processMessage(messageData: any, emitFunction: (data: INodeExecut
 			throw new NodeOperationError(null as any, `Failed to parse item data: ${error}`)
 		}
 
+		// Bind parameters using the same rules as in-memory mode
+		const { locals, binary } = await extractBinaryParameters(
+			helpers,
+			parameters,
+			bindParameters(messageData.functionName, parameters, parametersSchema, parsedInput, { json: parsedItem.json })
+		)
+
 		// Create output item with function call metadata (FIXED: Don't pollute with parsedInput)
 		const outputItem: INodeExecutionData = {
 			json: {
 				...parsedItem.json, // Original item data first (like old working version)
-				...parsedInput, // Function parameters as separate fields (not spread at root)
+				...locals, // Bound function parameters as separate fields
 				_functionCall: {
 					callId,
 					functionName: messageData.functionName,
 					responseChannel,
 					timestamp: Date.now(),
+					...describeCallAttempt(messageData.idempotencyKey, messageData.attempt),
+					...describeCallDeadline(messageData.deadline),
+					...describeCallTrace(messageData.traceId, messageData.parentCallId),
+					...(messageData.resultTtl ? { resultTtl: Number(messageData.resultTtl) } : {}),
 				},
 			},
 			pairedItem: parsedItem.pairedItem,
 		}
+		if (Object.keys(binary).length > 0) {
+			outputItem.binary = binary
+		}
 
 		// Emit data to connected nodes (this is how trigger nodes work)
 		logger.log("🚀 FUNCTION: Emitting data to connected nodes with callId:", callId)
@@ -605,7 +926,7 @@ async function processMessage(messageData: any, emitFunction: (data: INodeExecut
 		try {
 			const { callId } = messageData
 			if (callId) {
-				await sendResult(callId, null, String(error))
+				await sendResult(callId, null, toFunctionErrorInfo(error), messageData.resultTtl ? Number(messageData.resultTtl) : undefined)
 			}
 		} catch (sendError) {
 			logger.error("🚀 FUNCTION: ❌ Error sending error result:", sendError)
@@ -615,10 +936,248 @@ async function processMessage(messageData: any, emitFunction: (data: INodeExecut
 	}
 }
 
+/**
+ * Process a batch message: every entry becomes one item of a single execution
+ */
+async function processBatchMessage(
+	messageData: any,
+	emitFunction: (data: INodeExecutionData[][]) => void,
+	helpers: Pick<BinaryHelperFunctions, "prepareBinaryData">,
+	parameters: FunctionParameter[],
+	parametersSchema: JsonSchema | undefined
+): Promise<any> {
+	const { callId, responseChannel } = messageData
+
+	let entries: BatchCallEntry[]
+	try {
+		entries = typeof messageData.batch === "string" ? JSON.parse(messageData.batch) : messageData.batch
+	} catch (error) {
+		throw new NodeOperationError(null as any, `Failed to parse batch data: ${error}`)
+	}
+
+	const { items, failures } = await prepareBatchItems(
+		helpers,
+		entries,
+		parameters,
+		parametersSchema,
+		{
+			callId,
+			functionName: messageData.functionName,
+			responseChannel,
+			timestamp: Date.now(),
+			...describeCallAttempt(messageData.idempotencyKey, messageData.attempt),
+			...describeCallDeadline(messageData.deadline),
+			...describeCallTrace(messageData.traceId, messageData.parentCallId),
+		},
+		false
+	)
+
+	// Entries that failed binding are answered right away; the rest run in one execution
+	const registry = await getEnhancedFunctionRegistry()
+	await registry.publishBatchResults(callId, failures)
+	if (items.length > 0) {
+		logger.log("🚀 FUNCTION: Emitting", items.length, "batch items to connected nodes with callId:", callId)
+		emitFunction([items])
+	}
+
+	return { callId, batchSize: entries.length, emitted: items.length }
+}
+
+/**
+ * Bind every entry of a batch call and build the items to emit
+ * Each item's _functionCall carries its batch index so ReturnFromFunction can map results back to the caller's items
+ * Entries that fail binding are returned as failed results instead of being emitted
+ */
+async function prepareBatchItems(
+	helpers: Pick<BinaryHelperFunctions, "prepareBinaryData">,
+	entries: BatchCallEntry[],
+	parameters: FunctionParameter[],
+	parametersSchema: JsonSchema | undefined,
+	functionCall: Record<string, any>,
+	keepItemBinary: boolean
+): Promise<{ items: INodeExecutionData[]; failures: BatchCallResult[] }> {
+	const items: INodeExecutionData[] = []
+	const failures: BatchCallResult[] = []
+
+	for (let index = 0; index < entries.length; index++) {
+		const entryItem = entries[index].item || {}
+		try {
+			const { locals, binary } = await extractBinaryParameters(
+				helpers,
+				parameters,
+				bindParameters(functionCall.functionName, parameters, parametersSchema, entries[index].parameters, { json: entryItem.json })
+			)
+
+			const outputItem: INodeExecutionData = {
+				json: {
+					...entryItem.json,
+					...locals,
+					_functionCall: { ...functionCall, batchIndex: index, batchSize: entries.length },
+				},
+			}
+			const outputBinary = keepItemBinary ? { ...entryItem.binary, ...binary } : binary
+			if (Object.keys(outputBinary).length > 0) {
+				outputItem.binary = outputBinary
+			}
+			items.push(outputItem)
+		} catch (error) {
+			const errorInfo = toFunctionErrorInfo(error)
+			failures.push({ index, success: false, error: errorInfo.message, errorInfo })
+		}
+	}
+
+	return { items, failures }
+}
+
+/**
+ * Turn bound Binary parameters into real binary properties of the emitted item
+ * The JSON field keeps the file's metadata so downstream nodes can inspect it without the contents
+ */
+async function extractBinaryParameters(
+	helpers: Pick<BinaryHelperFunctions, "prepareBinaryData">,
+	parameters: FunctionParameter[],
+	bound: Record<string, any>
+): Promise<{ locals: Record<string, any>; binary: IBinaryKeyData }> {
+	const locals = { ...bound }
+	const binary: IBinaryKeyData = {}
+
+	for (const param of parameters) {
+		if (param.type !== "binary" || locals[param.name] === undefined) {
+			continue
+		}
+		binary[param.name] = await deserializeBinary(helpers, locals[param.name])
+		locals[param.name] = describeSerializedBinary(locals[param.name])
+	}
+
+	return { locals, binary }
+}
+
+/**
+ * Call metadata for retried calls: the idempotency key stays the same across attempts
+ * Returns no fields when the caller did not send a key
+ */
+function describeCallAttempt(idempotencyKey: string | undefined, attempt: number | string | undefined): { idempotencyKey?: string; attempt?: number } {
+	if (!idempotencyKey) {
+		return {}
+	}
+	return { idempotencyKey, attempt: Number(attempt) || 1 }
+}
+
+/**
+ * Call metadata for calls with a deadline (epoch milliseconds), so Call Function nodes inside the function inherit it
+ * Returns no fields when the caller set no deadline
+ */
+function describeCallDeadline(deadline: number | string | undefined): { deadline?: number } {
+	return Number(deadline) > 0 ? { deadline: Number(deadline) } : {}
+}
+
+/**
+ * Call metadata linking calls made inside the function to the caller's trace
+ * Returns no fields when the caller sent no trace
+ */
+function describeCallTrace(traceId: string | undefined, parentCallId: string | undefined): { traceId?: string; parentCallId?: string } {
+	if (!traceId) {
+		return {}
+	}
+	return parentCallId ? { traceId, parentCallId } : { traceId }
+}
+
+/**
+ * Record on the call's span that this worker picked it up; tracing problems never fail the call
+ */
+async function recordCallPickup(registry: FunctionRegistry, traceId: string | undefined, callId: string, workerId: string): Promise<void> {
+	if (!traceId) {
+		return
+	}
+	await registry.recordSpan({ traceId, callId, pickedUpAt: Date.now(), workerId }).catch((error) => {
+		logger.warn("🚀 FUNCTION: ⚠️ Could not record call pickup:", error.message)
+	})
+}
+
+/**
+ * Parse the comma-separated allowed values of an Options parameter
+ */
+function parseAllowedValues(allowedValues: string | undefined): string[] {
+	return (allowedValues || "")
+		.split(",")
+		.map((value) => value.trim())
+		.filter((value) => value !== "")
+}
+
+/**
+ * Parse the Constraints collection of a parameter, dropping constraints that do not apply to its type
+ * Throws when a pattern does not compile or a lower bound exceeds its upper bound
+ */
+function parseParameterConstraints(node: INode, parameterName: string, type: string, raw: Record<string, any> | undefined): ParameterConstraints | undefined {
+	if (!raw || Object.keys(raw).length === 0) {
+		return undefined
+	}
+
+	const keywordsByType: Record<string, Array<keyof ParameterConstraints>> = {
+		number: ["minimum", "maximum"],
+		string: ["pattern", "minLength", "maxLength"],
+		options: ["pattern", "minLength", "maxLength"],
+		array: ["minItems", "maxItems"],
+	}
+
+	const constraints: ParameterConstraints = {}
+	for (const keyword of keywordsByType[type] || []) {
+		const value = raw[keyword]
+		if (value !== undefined && value !== "") {
+			Object.assign(constraints, { [keyword]: value })
+		}
+	}
+
+	if (constraints.pattern !== undefined) {
+		try {
+			new RegExp(constraints.pattern, "u")
+		} catch (error) {
+			throw new NodeOperationError(node, `Pattern of parameter '${parameterName}' is not a valid regular expression: ${error.message}`)
+		}
+	}
+	for (const [lower, upper] of [
+		["minimum", "maximum"],
+		["minLength", "maxLength"],
+		["minItems", "maxItems"],
+	] as const) {
+		if (constraints[lower] !== undefined && constraints[upper] !== undefined && constraints[lower]! > constraints[upper]!) {
+			throw new NodeOperationError(node, `Constraints of parameter '${parameterName}': ${lower} (${constraints[lower]}) is greater than ${upper} (${constraints[upper]})`)
+		}
+	}
+
+	if (Object.keys(constraints).length === 0) {
+		return undefined
+	}
+	if (raw.errorMessage && String(raw.errorMessage).trim() !== "") {
+		constraints.errorMessage = String(raw.errorMessage).trim()
+	}
+	return constraints
+}
+
+/**
+ * Build the cache settings of a cacheable function
+ * Throws when a cache key parameter is not one of the function's parameters
+ */
+function parseCacheSettings(node: INode, cacheable: boolean, ttl: number, keyParameters: string, parameters: FunctionParameter[]): FunctionCacheSettings | undefined {
+	if (!cacheable) {
+		return undefined
+	}
+
+	const names = keyParameters
+		.split(",")
+		.map((name) => name.trim())
+		.filter((name) => name !== "")
+	const unknown = names.filter((name) => !parameters.some((param) => param.name === name))
+	if (unknown.length > 0) {
+		throw new NodeOperationError(node, `Cache Key Parameters must be parameters of this function: ${unknown.join(", ")} ${unknown.length === 1 ? "is" : "are"} not`)
+	}
+	return { ttl: ttl > 0 ? ttl : 3600, keyParameters: names.length > 0 ? names : undefined }
+}
+
 /**
  * Send result back via Redis
  */
-async function sendResult(callId: string, result: any, error: string | null): Promise<void> {
+async function sendResult(callId: string, result: any, errorInfo: FunctionErrorInfo | null, ttl: number = 300): Promise<void> {
 	try {
 		const redisConfig = getRedisConfig()
 		if (!redisConfig) {
@@ -628,10 +1187,18 @@ async function sendResult(callId: string, result: any, error: string | null): Pr
 		const connectionManager = RedisConnectionManager.getInstance(redisConfig)
 
 		await connectionManager.executeOperation(async (client) => {
+			// The caller gave up on this call - don't leave an orphan result behind
+			if (await client.exists(`${REDIS_KEY_PREFIX}abandoned:${callId}`)) {
+				logger.warn("🚀 FUNCTION: ⚠️ Dropping result for abandoned call:", callId)
+				return
+			}
+
+			const error = errorInfo ? errorInfo.message : null
 			const resultData = {
 				callId,
 				result: result ? JSON.stringify(result) : "",
 				error: error || "",
+				errorInfo: errorInfo ? JSON.stringify(errorInfo) : "",
 				timestamp: Date.now().toString(),
 				status: error ? "error" : "success",
 			}
@@ -642,15 +1209,16 @@ async function sendResult(callId: string, result: any, error: string | null): Pr
 			// Also set as a key for immediate retrieval
 			await client.setEx(
 				`${REDIS_KEY_PREFIX}result:${callId}`,
-				300,
+				ttl,
 				JSON.stringify({
 					callId,
 					result: result ? JSON.stringify(result) : null,
 					error,
+					errorInfo,
 					timestamp: Date.now(),
 					status: error ? "error" : "success",
 				})
-			) // 5 minute expiry
+			) // 5 minute expiry unless the caller asked to keep the result longer
 
 			logger.log("🚀 FUNCTION: ✅ Result sent successfully for call:", callId)
 		}, `send-result-${callId}`)
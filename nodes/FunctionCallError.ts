@@ -0,0 +1,74 @@
+/**
+ * Structured error information that travels between Function and CallFunction nodes
+ * Serialized into the result record so callers can branch on the error code
+ */
+export interface FunctionErrorInfo {
+	code: string
+	message: string
+	details?: any
+	// Set by functions that throw their error deliberately: whether calling again may succeed
+	retryable?: boolean
+}
+
+export const FunctionErrorCodes = {
+	PARAMETER_VALIDATION_FAILED: "PARAMETER_VALIDATION_FAILED",
+	RETURN_VALIDATION_FAILED: "RETURN_VALIDATION_FAILED",
+	FUNCTION_ERROR: "FUNCTION_ERROR",
+	FUNCTION_CALL_TIMEOUT: "FUNCTION_CALL_TIMEOUT",
+	FUNCTION_UNAVAILABLE: "FUNCTION_UNAVAILABLE",
+	TRANSPORT_ERROR: "TRANSPORT_ERROR",
+	INVALID_CALL: "INVALID_CALL",
+	CALL_CANCELLED: "CALL_CANCELLED",
+	DEADLINE_EXCEEDED: "DEADLINE_EXCEEDED",
+} as const
+
+/**
+ * Error carrying a machine-readable code alongside the message
+ */
+export class FunctionCallError extends Error {
+	readonly code: string
+	readonly details?: any
+	readonly retryable?: boolean
+
+	constructor(code: string, message: string, details?: any, retryable?: boolean) {
+		super(message)
+		this.name = "FunctionCallError"
+		this.code = code
+		this.details = details
+		this.retryable = retryable
+	}
+
+	/**
+	 * Convert to the serializable form sent through Redis / the in-memory registry
+	 */
+	toErrorInfo(): FunctionErrorInfo {
+		const info: FunctionErrorInfo = { code: this.code, message: this.message }
+		if (this.details !== undefined) {
+			info.details = this.details
+		}
+		if (this.retryable !== undefined) {
+			info.retryable = this.retryable
+		}
+		return info
+	}
+
+	/**
+	 * Rebuild an error from its serialized form
+	 */
+	static fromErrorInfo(info: FunctionErrorInfo): FunctionCallError {
+		return new FunctionCallError(info.code, info.message, info.details, info.retryable)
+	}
+}
+
+/**
+ * Convert any thrown value into structured error information
+ */
+export function toFunctionErrorInfo(error: any): FunctionErrorInfo {
+	if (error instanceof FunctionCallError) {
+		return error.toErrorInfo()
+	}
+	return {
+		code: FunctionErrorCodes.FUNCTION_ERROR,
+		message: error && error.message ? error.message : String(error),
+	}
+}
@@ -2,6 +2,12 @@ import { isQueueModeEnabled, RedisConfig, REDIS_KEY_PREFIX } from "./FunctionReg
 import { functionRegistryLogger as logger } from "./Logger"
 import { RedisConnectionManager } from "./RedisConnectionManager"
 import { CircuitBreaker } from "./CircuitBreaker"
+import { JsonSchema, describeJsonSchema } from "./JsonSchemaValidator"
+import { FunctionCallError, FunctionErrorCodes, FunctionErrorInfo, toFunctionErrorInfo } from "./FunctionCallError"
+import { SerializedBinaryMap } from "./BinaryTransfer"
+import { compareSemanticVersions, isValidSemanticVersion, resolveVersionRange } from "./SemanticVersion"
+import { CachedResult, LruCache } from "./ResultCache"
+import { CallSpan, isTracingEnabled } from "./CallTracing"
 
 export interface FunctionDefinition {
 	name: string
@@ -11,23 +17,137 @@ export interface FunctionDefinition {
 	workflowId: string
 	nodeId: string
 	description?: string
-	executionFunction?: (parameters: Record<string, any>, item: any) => Promise<any>
+	// Semantic version; several versions of the same function can be registered side by side
+	version?: string
+	// "workflow" functions are only listed for their own workflow; "global" ones are also published under globalName
+	visibility?: FunctionVisibility
+	globalName?: string
+	parametersSchema?: JsonSchema
+	returnSchema?: JsonSchema
+	// Set for pure functions whose results callers may reuse
+	cache?: FunctionCacheSettings
+	executionFunction?: (parameters: Record<string, any>, item: any, options?: CallOptions) => Promise<any>
+	// In-memory counterpart of a batch stream message: runs every entry in one execution
+	batchExecutionFunction?: (entries: BatchCallEntry[], options?: CallOptions) => Promise<BatchCallResponse>
 }
 
+export type FunctionVisibility = "workflow" | "global"
+
 export interface FunctionParameter {
 	name: string
 	type: string
 	required: boolean
 	description?: string
+	defaultValue?: string
+	schema?: JsonSchema
+	// Allowed values for parameters of type "options"
+	options?: string[]
+	constraints?: ParameterConstraints
+}
+
+/**
+ * Value constraints of a parameter, enforced as JSON Schema keywords before the function runs
+ */
+export interface ParameterConstraints {
+	minimum?: number
+	maximum?: number
+	pattern?: string
+	minLength?: number
+	maxLength?: number
+	minItems?: number
+	maxItems?: number
+	// Reported instead of the generated messages when any constraint fails
+	errorMessage?: string
+}
+
+/**
+ * How long callers may reuse a function's results and which parameters identify a result
+ */
+export interface FunctionCacheSettings {
+	// Seconds a cached result stays valid
+	ttl: number
+	// Parameters that form the cache key (all parameters when empty)
+	keyParameters?: string[]
+}
+
+/**
+ * Stable identity of a Function node (keyed by workflow and node ID) and the names it has had
+ */
+interface FunctionIdentity {
+	name: string
+	qualifiedName: string
+	previousNames: Array<{ name: string; renamedAt: number }>
 }
 
 export interface CallResult {
 	success: boolean
 	result?: any
 	error?: string
+	errorInfo?: FunctionErrorInfo
 	actualExecutionId?: string
 }
 
+/**
+ * Per-call options chosen by the caller
+ */
+export interface CallOptions {
+	// Milliseconds to wait for the function to return (0 waits until it returns)
+	timeout?: number
+	// Stays the same across retries of one call so the function can deduplicate
+	idempotencyKey?: string
+	// 1 for the first attempt
+	attempt?: number
+	// Seconds the result is kept under result:<callId> (asynchronous calls are collected later)
+	resultTtl?: number
+	// Call ID chosen by the caller (generated when omitted)
+	callId?: string
+	// Aborted when the calling execution is stopped; the call is then cancelled
+	signal?: AbortSignal
+	// Epoch milliseconds by which the call must finish; calls made inside the function inherit it
+	deadline?: number
+	// Trace of the call and the call the caller runs in, passed on to calls made inside the function
+	traceId?: string
+	parentCallId?: string
+}
+
+/**
+ * Outcome of a single call as read back by the caller
+ */
+export interface CallResponse {
+	success: boolean
+	data?: any
+	binary?: SerializedBinaryMap
+	error?: string
+	errorInfo?: FunctionErrorInfo
+}
+
+/**
+ * One caller item of a batch call
+ */
+export interface BatchCallEntry {
+	parameters: Record<string, any>
+	item: any
+}
+
+/**
+ * Result of one entry of a batch call; index is the entry's position in the batch
+ */
+export interface BatchCallResult {
+	index: number
+	success: boolean
+	data?: any
+	binary?: SerializedBinaryMap
+	error?: string
+	errorInfo?: FunctionErrorInfo
+}
+
+export interface BatchCallResponse {
+	success: boolean
+	results?: BatchCallResult[]
+	error?: string
+	errorInfo?: FunctionErrorInfo
+}
+
 export interface WorkerInfo {
 	id: string
 	functionName: string
@@ -36,6 +156,125 @@ export interface WorkerInfo {
 	isHealthy: boolean
 }
 
+/**
+ * Build the registry name of a function version, e.g. "computeTax@2.1.0"
+ * Streams, workers and registry keys all use this name; unversioned functions keep their plain name
+ */
+export function qualifyFunctionName(name: string, version?: string): string {
+	return version ? `${name}@${version}` : name
+}
+
+/**
+ * Split a registry name back into the function name and version
+ * Only a semantic version after the last @ is a version, so names containing @ (e.g. "Notify @channel") stay whole
+ */
+export function parseQualifiedFunctionName(qualifiedName: string): { name: string; version?: string } {
+	const separatorIndex = qualifiedName.lastIndexOf("@")
+	if (separatorIndex <= 0 || !isValidSemanticVersion(qualifiedName.slice(separatorIndex + 1))) {
+		return { name: qualifiedName }
+	}
+	return { name: qualifiedName.slice(0, separatorIndex), version: qualifiedName.slice(separatorIndex + 1) }
+}
+
+/**
+ * Generate a unique call ID
+ */
+export function createCallId(): string {
+	return `call-${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+/**
+ * Stream message fields carrying the caller's call options (idempotency key, attempt, result TTL, deadline, trace)
+ */
+function describeCallAttempt(options: CallOptions): Record<string, string> {
+	const fields: Record<string, string> = {}
+	if (options.idempotencyKey) {
+		fields.idempotencyKey = options.idempotencyKey
+		fields.attempt = String(options.attempt || 1)
+	}
+	if (options.resultTtl) {
+		fields.resultTtl = String(options.resultTtl)
+	}
+	if (options.deadline) {
+		fields.deadline = String(options.deadline)
+	}
+	if (options.traceId) {
+		fields.traceId = options.traceId
+		if (options.parentCallId) {
+			fields.parentCallId = options.parentCallId
+		}
+	}
+	return fields
+}
+
+/**
+ * Reject a call whose deadline has already passed instead of enqueuing or running it
+ */
+function assertDeadline(functionName: string, options: CallOptions): void {
+	if (options.deadline && options.deadline <= Date.now()) {
+		throw new FunctionCallError(FunctionErrorCodes.DEADLINE_EXCEEDED, `Deadline of the call to '${functionName}' passed ${Date.now() - options.deadline}ms ago`, {
+			deadline: options.deadline,
+		})
+	}
+}
+
+/**
+ * Read a result:<callId> record written by publishResponse or the Function node
+ */
+function parseCallResult(record: string): CallResponse {
+	const parsedResult = JSON.parse(record)
+	return {
+		success: parsedResult.status === "success",
+		data: parsedResult.result ? JSON.parse(parsedResult.result) : null,
+		binary: parsedResult.binary || undefined,
+		error: parsedResult.error,
+		errorInfo: parsedResult.errorInfo || undefined,
+	}
+}
+
+/**
+ * Read a span:<callId> hash back into a span
+ */
+function parseSpanFields(fields: Record<string, string>): CallSpan {
+	const span: CallSpan = { traceId: fields.traceId, callId: fields.callId }
+	for (const field of ["enqueuedAt", "pickedUpAt", "returnedAt", "completedAt"] as const) {
+		if (fields[field]) {
+			span[field] = Number(fields[field])
+		}
+	}
+	for (const field of ["parentCallId", "functionName", "workerId", "errorCode"] as const) {
+		if (fields[field]) {
+			span[field] = fields[field]
+		}
+	}
+	if (fields.status === "ok" || fields.status === "error") {
+		span.status = fields.status
+	}
+	return span
+}
+
+/**
+ * Structured error for a call that did not return in time
+ */
+function createTimeoutErrorInfo(callId: string, timeout: number): FunctionErrorInfo {
+	return {
+		code: FunctionErrorCodes.FUNCTION_CALL_TIMEOUT,
+		message: `Function call timed out after ${timeout}ms`,
+		details: { callId, timeout },
+	}
+}
+
+/**
+ * Structured error for a call cancelled because the calling execution was stopped
+ */
+function createCancelledErrorInfo(callId: string): FunctionErrorInfo {
+	return {
+		code: FunctionErrorCodes.CALL_CANCELLED,
+		message: "Function call cancelled because the calling execution was stopped",
+		details: { callId },
+	}
+}
+
 /**
  * Production-hardened Function Registry with Redis-based coordination
  * Eliminates race conditions and provides robust function management
@@ -45,15 +284,36 @@ export class FunctionRegistry {
 	private connectionManager: RedisConnectionManager
 	private circuitBreaker: CircuitBreaker
 	private returnValues: Map<string, any> = new Map()
+	private returnErrors: Map<string, FunctionErrorInfo> = new Map()
+	private returnBinaries: Map<string, SerializedBinaryMap> = new Map()
+	private batchResults: Map<string, BatchCallResult[]> = new Map()
+	// In-memory counterpart of result:<callId> keys for asynchronous calls
+	private callResults: Map<string, { response: CallResponse; expiresAt: number }> = new Map()
+	// Calls the caller stopped waiting for (in-memory mode) and when they are forgotten; late returns for them are dropped
+	private abandonedCalls: Map<string, number> = new Map()
+	// Calls cancelled by their caller (in-memory mode) and when their cancel signal expires
+	private cancelledCalls: Map<string, number> = new Map()
+	// In-memory counterpart of the cache:<function>:<scope> keys, keyed by "<function>:<scope>:<cache key>"
+	private resultCache: LruCache<CachedResult> = new LruCache(1000)
+	// In-memory counterpart of the trace:<traceId> and span:<callId> keys: the spans of each trace by call ID
+	private traces: LruCache<Record<string, CallSpan>> = new LruCache(1000)
 
 	// In-memory storage for non-queue mode
 	private inMemoryFunctions: Map<string, FunctionDefinition> = new Map()
 	private workflowFunctionCache: Map<string, Set<string>> = new Map()
 	private functionToWorkflowCache: Map<string, string> = new Map()
+	// Function identities ("workflowId:nodeId") and aliases of old names ("workflowId:oldName" -> nodeId)
+	private functionIdentities: Map<string, FunctionIdentity> = new Map()
+	private functionAliases: Map<string, string> = new Map()
 
 	private readonly WORKER_TIMEOUT = 30000 // 30 seconds
 	private readonly CALL_TIMEOUT = 300000 // 5 minutes
 	private readonly STREAM_READY_TIMEOUT = 5000 // 5 seconds
+	private readonly IDENTITY_TTL = 2592000 // 30 days
+	private readonly ABANDONED_TTL = 3600 // 1 hour
+	private readonly RESULT_TTL = 300 // 5 minutes
+	private readonly CANCEL_TTL = 3600 // 1 hour
+	private readonly TRACE_TTL = 86400 // 1 day
 	// Garbage collector properties removed - using prevention-first approach instead
 
 	constructor(redisConfig: RedisConfig) {
@@ -85,11 +345,16 @@ export class FunctionRegistry {
 	 * Register a function with robust state management
 	 */
 	async registerFunction(definition: FunctionDefinition): Promise<void> {
+		const qualifiedName = qualifyFunctionName(definition.name, definition.version)
+
+		// Track the node's identity first so a renamed function keeps resolving under its old name
+		await this.recordFunctionIdentity(definition, qualifiedName)
+
 		// Always store in memory for in-memory mode support
-		const functionKey = `${definition.name}:${definition.scope}`
+		const functionKey = `${qualifiedName}:${definition.scope}`
 		this.inMemoryFunctions.set(functionKey, definition)
-		this.updateWorkflowCache(definition.name, definition.workflowId)
-		logger.log("🏗️ REGISTRY: Function stored in memory:", definition.name, "scope:", definition.scope)
+		this.updateWorkflowCache(qualifiedName, definition.workflowId)
+		logger.log("🏗️ REGISTRY: Function stored in memory:", qualifiedName, "scope:", definition.scope)
 
 		if (!isQueueModeEnabled()) {
 			logger.log("🏗️ REGISTRY: Queue mode disabled, using in-memory storage only")
@@ -98,34 +363,48 @@ export class FunctionRegistry {
 
 		await this.circuitBreaker.execute(async () => {
 			await this.connectionManager.executeOperation(async (client) => {
-				const functionKey = `${REDIS_KEY_PREFIX}function:${definition.name}:${definition.scope}`
+				const functionKey = `${REDIS_KEY_PREFIX}function:${qualifiedName}:${definition.scope}`
 				const registryKey = `${REDIS_KEY_PREFIX}registry:functions`
+				const globalRegistryKey = `${REDIS_KEY_PREFIX}registry:global_functions`
 
 				// Store function definition
 				await client.hSet(functionKey, {
 					name: definition.name,
+					version: definition.version || "",
+					visibility: definition.visibility || "workflow",
+					globalName: definition.globalName || "",
 					scope: definition.scope,
 					code: definition.code,
 					parameters: JSON.stringify(definition.parameters),
 					workflowId: definition.workflowId,
 					nodeId: definition.nodeId,
 					description: definition.description || "",
+					parametersSchema: definition.parametersSchema ? JSON.stringify(definition.parametersSchema) : "",
+					returnSchema: definition.returnSchema ? JSON.stringify(definition.returnSchema) : "",
+					cache: definition.cache ? JSON.stringify(definition.cache) : "",
 					registeredAt: Date.now().toString(),
 				})
 
 				// Add to global registry
-				await client.sAdd(registryKey, `${definition.name}:${definition.scope}`)
+				await client.sAdd(registryKey, `${qualifiedName}:${definition.scope}`)
+
+				// Index globally visible functions separately so callers can find them without knowing the workflow
+				if (definition.visibility === "global") {
+					await client.sAdd(globalRegistryKey, `${qualifiedName}:${definition.scope}`)
+				} else {
+					await client.sRem(globalRegistryKey, `${qualifiedName}:${definition.scope}`)
+				}
 
 				// Set expiration
 				await client.expire(functionKey, 3600) // 1 hour
 
-				logger.log("🏗️ REGISTRY: ✅ Function registered:", definition.name, "scope:", definition.scope)
-			}, `register-function-${definition.name}`)
-		}, `register-function-${definition.name}`)
+				logger.log("🏗️ REGISTRY: ✅ Function registered:", qualifiedName, "scope:", definition.scope)
+			}, `register-function-${qualifiedName}`)
+		}, `register-function-${qualifiedName}`)
 	}
 
 	/**
-	 * Unregister a function
+	 * Unregister a function (functionName is the registry name, including the version if any)
 	 */
 	async unregisterFunction(functionName: string, scope: string): Promise<void> {
 		// Always clean up in-memory storage
@@ -145,9 +424,11 @@ export class FunctionRegistry {
 			await this.connectionManager.executeOperation(async (client) => {
 				const functionKey = `${REDIS_KEY_PREFIX}function:${functionName}:${scope}`
 				const registryKey = `${REDIS_KEY_PREFIX}registry:functions`
+				const globalRegistryKey = `${REDIS_KEY_PREFIX}registry:global_functions`
 
 				// Remove from global registry
 				await client.sRem(registryKey, `${functionName}:${scope}`)
+				await client.sRem(globalRegistryKey, `${functionName}:${scope}`)
 
 				// Remove function definition
 				await client.del(functionKey)
@@ -242,118 +523,197 @@ export class FunctionRegistry {
 
 	/**
 	 * Get available functions for a workflow
+	 * Lists each function once; its latest version describes it and the other versions are listed alongside
 	 */
 	async getAvailableFunctions(workflowId: string): Promise<Array<{ name: string; value: string; description: string }>> {
-		// Handle in-memory mode first
-		if (!isQueueModeEnabled()) {
-			logger.log("🏗️ REGISTRY: Queue mode disabled, using in-memory functions for workflow:", workflowId)
-			const functions: Array<{ name: string; value: string; description: string }> = []
+		const definitions = await this.listFunctionDefinitions(workflowId)
 
-			// Get functions for this specific workflow from cache
-			const workflowFunctions = this.getFunctionsForWorkflow(workflowId)
-			logger.log("🏗️ REGISTRY: Found functions in workflow cache:", workflowFunctions)
+		const versionsByName = new Map<string, FunctionDefinition[]>()
+		for (const definition of definitions) {
+			if (!versionsByName.has(definition.name)) {
+				versionsByName.set(definition.name, [])
+			}
+			versionsByName.get(definition.name)!.push(definition)
+		}
 
-			for (const functionName of workflowFunctions) {
-				// Find the function definition in memory
-				for (const [, definition] of this.inMemoryFunctions.entries()) {
-					if (definition.name === functionName && definition.workflowId === workflowId) {
-						const description = definition.description && definition.description.trim() ? definition.description : `Function: ${functionName}`
-						functions.push({
-							name: functionName,
-							value: functionName,
-							description: description,
-						})
-						break
-					}
-				}
+		const functions: Array<{ name: string; value: string; description: string }> = []
+		for (const [name, candidates] of versionsByName.entries()) {
+			const latest = this.selectFunctionVersion(candidates) || candidates[0]
+			const versions = candidates
+				.map((definition) => definition.version)
+				.filter((version): version is string => !!version)
+				.sort(compareSemanticVersions)
+
+			let description = this.describeFunction(latest)
+			if (versions.length > 1) {
+				description += ` (versions: ${versions.join(", ")})`
+			}
+			const previousNames = await this.getPreviousFunctionNames(latest.nodeId, workflowId)
+			if (previousNames.length > 0) {
+				description += ` (previously: ${previousNames.join(", ")})`
 			}
 
-			logger.log("🏗️ REGISTRY: Available in-memory functions for workflow", workflowId, ":", functions.length)
-			return functions
+			// The value is the Function node's ID, so callers keep working when the node is renamed
+			functions.push({
+				name: latest.version ? `${name} (v${latest.version})` : name,
+				value: latest.nodeId,
+				description,
+			})
 		}
 
-		return await this.circuitBreaker.execute(async () => {
-			return await this.connectionManager.executeOperation(async (client) => {
-				const registryKey = `${REDIS_KEY_PREFIX}registry:functions`
-				const functionKeys = await client.sMembers(registryKey)
-				const functions: Array<{ name: string; value: string; description: string }> = []
+		logger.log("🏗️ REGISTRY: Available functions for workflow", workflowId, ":", functions.length)
+		return functions
+	}
 
-				for (const functionKey of functionKeys) {
-					const [name, scope] = functionKey.split(":")
-					const fullKey = `${REDIS_KEY_PREFIX}function:${name}:${scope}`
-					const functionData = await client.hGetAll(fullKey)
+	/**
+	 * Get the full definition of a function (parameters, schemas, description)
+	 *
+	 * functionName may be a plain name or a registry name with an exact version ("computeTax@2.1.0").
+	 * For a plain name, versionRange (e.g. "^2", "~1.4.0", "2.1.0") selects the highest matching version;
+	 * without a range the latest stable version is used.
+	 */
+	async getFunctionDefinition(functionName: string, workflowId: string, versionRange?: string): Promise<FunctionDefinition | null> {
+		const { name, version } = parseQualifiedFunctionName(functionName)
+		const candidates = (await this.listFunctionDefinitions(workflowId)).filter((definition) => definition.name === name)
+
+		const definition = this.selectFunctionVersion(candidates, version || versionRange)
+		if (!definition) {
+			logger.log("🏗️ REGISTRY: Function not found:", functionName, versionRange ? `(version ${versionRange})` : "")
+			return null
+		}
 
-					if (functionData && functionData.workflowId === workflowId) {
-						const description = functionData.description && functionData.description.trim() ? functionData.description : `Function: ${name}`
+		logger.log("🏗️ REGISTRY: Found function definition:", qualifyFunctionName(definition.name, definition.version))
+		return definition
+	}
 
-						functions.push({
-							name: name,
-							value: name,
-							description: description,
-						})
-					}
-				}
+	/**
+	 * Get the registered versions of a function, lowest first
+	 */
+	async getFunctionVersions(functionName: string, workflowId: string): Promise<string[]> {
+		const definitions = await this.listFunctionDefinitions(workflowId)
+		return definitions
+			.filter((definition) => definition.name === functionName && definition.version)
+			.map((definition) => definition.version!)
+			.sort(compareSemanticVersions)
+	}
+
+	/**
+	 * Resolve what a caller stored (a function ID, a current name, or a name the function had before a rename)
+	 * to the function's current name in a workflow
+	 *
+	 * The function ID is the Function node's ID, so it survives renames. Stored names that no longer
+	 * exist are looked up in the alias table and reported through renamedFrom.
+	 */
+	async resolveFunctionName(reference: string, workflowId: string): Promise<{ name: string; nodeId?: string; renamedFrom?: string } | null> {
+		const definitions = await this.listFunctionDefinitions(workflowId)
+
+		const byId = definitions.find((definition) => definition.nodeId === reference)
+		if (byId) {
+			return { name: byId.name, nodeId: byId.nodeId }
+		}
+
+		const byName = definitions.find((definition) => definition.name === reference)
+		if (byName) {
+			return { name: byName.name, nodeId: byName.nodeId }
+		}
+
+		const aliasNodeId = await this.getFunctionAlias(reference, workflowId)
+		const renamed = aliasNodeId ? definitions.find((definition) => definition.nodeId === aliasNodeId) : undefined
+		if (renamed) {
+			logger.log(`🏗️ REGISTRY: Function ${reference} was renamed to ${renamed.name} (node ${renamed.nodeId})`)
+			return { name: renamed.name, nodeId: renamed.nodeId, renamedFrom: reference }
+		}
 
-				logger.log("🏗️ REGISTRY: Available functions for workflow", workflowId, ":", functions.length)
-				return functions
-			}, `get-available-functions-${workflowId}`)
-		}, `get-available-functions-${workflowId}`)
+		logger.log("🏗️ REGISTRY: Could not resolve function reference:", reference, "in workflow", workflowId)
+		return null
 	}
 
 	/**
-	 * Get function parameters
+	 * Get the names a function had before it was renamed, oldest first
 	 */
-	async getFunctionParameters(functionName: string, workflowId: string): Promise<FunctionParameter[]> {
-		// Handle in-memory mode first
-		if (!isQueueModeEnabled()) {
-			logger.log("🏗️ REGISTRY: Queue mode disabled, getting parameters from memory for:", functionName)
+	async getPreviousFunctionNames(nodeId: string, workflowId: string): Promise<string[]> {
+		const identity = await this.getFunctionIdentity(nodeId, workflowId)
+		return identity ? identity.previousNames.map((previous) => previous.name) : []
+	}
 
-			// Find function in memory by name and workflow
-			for (const [, definition] of this.inMemoryFunctions.entries()) {
-				if (definition.name === functionName && definition.workflowId === workflowId) {
-					logger.log("🏗️ REGISTRY: Found function parameters in memory:", definition.parameters)
-					return definition.parameters
-				}
+	/**
+	 * Get globally visible functions from every workflow
+	 * Lists each global name once, described by its latest version and hosting workflow
+	 */
+	async getGlobalFunctions(): Promise<Array<{ name: string; value: string; description: string }>> {
+		const definitions = await this.listGlobalFunctionDefinitions()
+
+		const versionsByGlobalName = new Map<string, FunctionDefinition[]>()
+		for (const definition of definitions) {
+			if (!versionsByGlobalName.has(definition.globalName!)) {
+				versionsByGlobalName.set(definition.globalName!, [])
 			}
+			versionsByGlobalName.get(definition.globalName!)!.push(definition)
+		}
 
-			logger.log("🏗️ REGISTRY: Function not found in memory:", functionName)
-			return []
+		const functions: Array<{ name: string; value: string; description: string }> = []
+		for (const [globalName, candidates] of versionsByGlobalName.entries()) {
+			const latest = this.selectFunctionVersion(candidates) || candidates[0]
+			const workflowIds = new Set(candidates.map((definition) => definition.workflowId))
+			if (workflowIds.size > 1) {
+				logger.warn(`🏗️ REGISTRY: ⚠️ Global function ${globalName} is published by several workflows: [${Array.from(workflowIds).join(", ")}]`)
+			}
+
+			functions.push({
+				name: latest.version ? `${globalName} (v${latest.version})` : globalName,
+				value: globalName,
+				description: `${this.describeFunction(latest)} (workflow ${latest.workflowId})`,
+			})
 		}
 
-		return await this.circuitBreaker.execute(async () => {
-			return await this.connectionManager.executeOperation(async (client) => {
-				// Find function by name and workflow
-				const registryKey = `${REDIS_KEY_PREFIX}registry:functions`
-				const functionKeys = await client.sMembers(registryKey)
+		functions.sort((a, b) => a.value.localeCompare(b.value))
+		logger.log("🏗️ REGISTRY: Available global functions:", functions.length)
+		return functions
+	}
 
-				for (const functionKey of functionKeys) {
-					const [name, scope] = functionKey.split(":")
-					if (name === functionName) {
-						const fullKey = `${REDIS_KEY_PREFIX}function:${name}:${scope}`
-						const functionData = await client.hGetAll(fullKey)
-
-						if (functionData && functionData.workflowId === workflowId) {
-							try {
-								const parameters = JSON.parse(functionData.parameters || "[]")
-								logger.log("🏗️ REGISTRY: Function parameters for", functionName, ":", parameters)
-								return parameters
-							} catch (error) {
-								logger.error("🏗️ REGISTRY: Error parsing parameters:", error)
-								return []
-							}
-						}
-					}
-				}
+	/**
+	 * Get the definition of a global function by its global name, selecting a version like getFunctionDefinition
+	 * The definition's workflowId tells the caller which workflow hosts the function
+	 */
+	async getGlobalFunctionDefinition(globalName: string, versionRange?: string): Promise<FunctionDefinition | null> {
+		const candidates = (await this.listGlobalFunctionDefinitions()).filter((definition) => definition.globalName === globalName)
+
+		const definition = this.selectFunctionVersion(candidates, versionRange)
+		if (!definition) {
+			logger.log("🏗️ REGISTRY: Global function not found:", globalName, versionRange ? `(version ${versionRange})` : "")
+			return null
+		}
+
+		logger.log("🏗️ REGISTRY: Found global function:", globalName, "->", qualifyFunctionName(definition.name, definition.version), "in workflow", definition.workflowId)
+		return definition
+	}
+
+	/**
+	 * Get the registered versions of a global function, lowest first
+	 */
+	async getGlobalFunctionVersions(globalName: string): Promise<string[]> {
+		const definitions = await this.listGlobalFunctionDefinitions()
+		return definitions
+			.filter((definition) => definition.globalName === globalName && definition.version)
+			.map((definition) => definition.version!)
+			.sort(compareSemanticVersions)
+	}
 
-				return []
-			}, `get-function-parameters-${functionName}`)
-		}, `get-function-parameters-${functionName}`)
+	/**
+	 * Get function parameters
+	 */
+	async getFunctionParameters(functionName: string, workflowId: string, versionRange?: string): Promise<FunctionParameter[]> {
+		const definition = await this.getFunctionDefinition(functionName, workflowId, versionRange)
+		const parameters = definition ? definition.parameters : []
+		logger.log("🏗️ REGISTRY: Function parameters for", functionName, ":", parameters)
+		return parameters
 	}
 
 	/**
 	 * Add a function call to Redis stream
 	 */
-	async addCall(streamKey: string, callId: string, functionName: string, parameters: any, item: any, responseChannel: string): Promise<void> {
+	async addCall(streamKey: string, callId: string, functionName: string, parameters: any, item: any, responseChannel: string, options: CallOptions = {}): Promise<void> {
+		assertDeadline(functionName, options)
 		await this.circuitBreaker.execute(async () => {
 			await this.connectionManager.executeOperation(async (client) => {
 				const callData = {
@@ -363,6 +723,7 @@ export class FunctionRegistry {
 					item: JSON.stringify(item),
 					responseChannel,
 					timestamp: Date.now().toString(),
+					...describeCallAttempt(options),
 				}
 
 				await client.xAdd(streamKey, "*", callData)
@@ -371,32 +732,159 @@ export class FunctionRegistry {
 		}, `add-call-${callId}`)
 	}
 
+	/**
+	 * Add a batch call to the stream: one message carrying every entry, processed in a single execution
+	 */
+	async addBatchCall(streamKey: string, callId: string, functionName: string, entries: BatchCallEntry[], responseChannel: string, options: CallOptions = {}): Promise<void> {
+		assertDeadline(functionName, options)
+		await this.circuitBreaker.execute(async () => {
+			await this.connectionManager.executeOperation(async (client) => {
+				const callData = {
+					callId,
+					functionName,
+					batch: JSON.stringify(entries),
+					responseChannel,
+					timestamp: Date.now().toString(),
+					...describeCallAttempt(options),
+				}
+
+				await client.xAdd(streamKey, "*", callData)
+				logger.log("🏗️ REGISTRY: ✅ Batch call added to stream:", callId, `(${entries.length} items)`)
+			}, `add-batch-call-${callId}`)
+		}, `add-batch-call-${callId}`)
+	}
+
+	/**
+	 * Publish results for some entries of a batch call
+	 * Results may arrive in several parts (e.g. binding failures first, then the returned items)
+	 */
+	async publishBatchResults(callId: string, results: BatchCallResult[]): Promise<void> {
+		if (results.length === 0) {
+			return
+		}
+
+		if (!isQueueModeEnabled()) {
+			if ((this.abandonedCalls.get(callId) ?? 0) > Date.now()) {
+				logger.warn("🏗️ REGISTRY: ⚠️ Dropping late batch results for abandoned call:", callId)
+				return
+			}
+			this.batchResults.set(callId, [...(this.batchResults.get(callId) || []), ...results])
+			logger.log("🏗️ REGISTRY: ✅ Batch results stored for:", callId, `(${results.length} items)`)
+			return
+		}
+
+		await this.circuitBreaker.execute(async () => {
+			await this.connectionManager.executeOperation(async (client) => {
+				if (await client.exists(`${REDIS_KEY_PREFIX}abandoned:${callId}`)) {
+					logger.warn("🏗️ REGISTRY: ⚠️ Dropping late batch results for abandoned call:", callId)
+					return
+				}
+
+				const resultsKey = `${REDIS_KEY_PREFIX}batch_results:${callId}`
+				await client.rPush(resultsKey, JSON.stringify(results))
+				await client.expire(resultsKey, 300)
+				logger.log("🏗️ REGISTRY: ✅ Batch results published for:", callId, `(${results.length} items)`)
+			}, `publish-batch-results-${callId}`)
+		}, `publish-batch-results-${callId}`)
+	}
+
+	/**
+	 * Wait until every entry of a batch call has a result
+	 * Results are returned in entry order; a failure of the whole call (e.g. an unreadable message) fails every entry
+	 */
+	async waitForBatchResults(callId: string, size: number, timeout: number = this.CALL_TIMEOUT, signal?: AbortSignal): Promise<BatchCallResponse> {
+		const startTime = Date.now()
+		const collect = (parts: BatchCallResult[]) => {
+			const byIndex = new Map(parts.map((result) => [result.index, result]))
+			return byIndex.size >= size ? Array.from(byIndex.values()).sort((a, b) => a.index - b.index) : null
+		}
+
+		if (!isQueueModeEnabled()) {
+			while (timeout === 0 || Date.now() - startTime < timeout) {
+				if (signal && signal.aborted) {
+					this.batchResults.delete(callId)
+					return this.cancelInMemory(callId)
+				}
+				const results = collect(this.batchResults.get(callId) || [])
+				if (results) {
+					this.batchResults.delete(callId)
+					logger.log("🏗️ REGISTRY: ✅ Batch results collected for:", callId)
+					return { success: true, results }
+				}
+				await new Promise((resolve) => setTimeout(resolve, 10))
+			}
+			this.batchResults.delete(callId)
+			this.abandonCall(callId)
+			const errorInfo = createTimeoutErrorInfo(callId, timeout)
+			return { success: false, error: errorInfo.message, errorInfo }
+		}
+
+		return await this.circuitBreaker.execute(async () => {
+			return await this.connectionManager.executeOperation(async (client) => {
+				const resultsKey = `${REDIS_KEY_PREFIX}batch_results:${callId}`
+				const resultKey = `${REDIS_KEY_PREFIX}result:${callId}`
+
+				while (timeout === 0 || Date.now() - startTime < timeout) {
+					if (signal && signal.aborted) {
+						await client.del(resultsKey)
+						return await this.cancelInRedis(client, callId)
+					}
+					const parts = await client.lRange(resultsKey, 0, -1)
+					const results = collect(parts.flatMap((part: string) => JSON.parse(part) as BatchCallResult[]))
+					if (results) {
+						await client.del(resultsKey)
+						logger.log("🏗️ REGISTRY: ✅ Batch results collected for:", callId)
+						return { success: true, results }
+					}
+
+					const failure = await client.get(resultKey)
+					if (failure) {
+						await client.del([resultKey, resultsKey])
+						const parsedFailure = JSON.parse(failure)
+						return { success: false, error: parsedFailure.error, errorInfo: parsedFailure.errorInfo || undefined }
+					}
+
+					await new Promise((resolve) => setTimeout(resolve, 100))
+				}
+
+				// Mark the call abandoned so a late ReturnFromFunction does not leave orphan results behind
+				await client.setEx(`${REDIS_KEY_PREFIX}abandoned:${callId}`, this.ABANDONED_TTL, Date.now().toString())
+				await client.del(resultsKey)
+				logger.warn("🏗️ REGISTRY: ⏱️ Batch call abandoned after timeout:", callId)
+				const errorInfo = createTimeoutErrorInfo(callId, timeout)
+				return { success: false, error: errorInfo.message, errorInfo }
+			}, `wait-batch-results-${callId}`)
+		}, `wait-batch-results-${callId}`)
+	}
+
 	/**
 	 * Wait for function response
+	 * Aborting the signal cancels the call instead of waiting for it
 	 */
-	async waitForResponse(responseChannel: string, timeout: number = this.CALL_TIMEOUT): Promise<{ success: boolean; data?: any; error?: string }> {
+	async waitForResponse(responseChannel: string, timeout: number = this.CALL_TIMEOUT, signal?: AbortSignal): Promise<CallResponse> {
 		return await this.circuitBreaker.execute(async () => {
 			return await this.connectionManager.executeOperation(async (client) => {
 				const startTime = Date.now()
+				const callId = responseChannel.replace(`${REDIS_KEY_PREFIX}function:response:`, "")
+				const resultKey = `${REDIS_KEY_PREFIX}result:${callId}`
 
 				while (timeout === 0 || Date.now() - startTime < timeout) {
+					if (signal && signal.aborted) {
+						return await this.cancelInRedis(client, callId)
+					}
+
 					// Check for result in Redis key
-					const resultKey = `${REDIS_KEY_PREFIX}result:${responseChannel.replace(`${REDIS_KEY_PREFIX}function:response:`, "")}`
 					const result = await client.get(resultKey)
 
 					if (result) {
 						try {
-							const parsedResult = JSON.parse(result)
-							logger.log("🏗️ REGISTRY: ✅ Response received:", parsedResult)
+							const response = parseCallResult(result)
+							logger.log("🏗️ REGISTRY: ✅ Response received:", response)
 
 							// Clean up the result
 							await client.del(resultKey)
 
-							return {
-								success: parsedResult.status === "success",
-								data: parsedResult.result ? JSON.parse(parsedResult.result) : null,
-								error: parsedResult.error,
-							}
+							return response
 						} catch (error) {
 							logger.error("🏗️ REGISTRY: Error parsing response:", error)
 							return { success: false, error: `Failed to parse response: ${error}` }
@@ -407,12 +895,278 @@ export class FunctionRegistry {
 					await new Promise((resolve) => setTimeout(resolve, 100))
 				}
 
-				// Timeout
-				return { success: false, error: "Function call timeout" }
+				// Timeout - mark the call abandoned so a late ReturnFromFunction does not leave an orphan result behind
+				await client.setEx(`${REDIS_KEY_PREFIX}abandoned:${callId}`, this.ABANDONED_TTL, Date.now().toString())
+				await client.del(resultKey)
+				logger.warn("🏗️ REGISTRY: ⏱️ Call abandoned after timeout:", callId)
+				const errorInfo = createTimeoutErrorInfo(callId, timeout)
+				return { success: false, error: errorInfo.message, errorInfo }
 			}, `wait-response-${responseChannel}`)
 		}, `wait-response-${responseChannel}`)
 	}
 
+	/**
+	 * Start a call without waiting for it (in-memory mode)
+	 * The outcome is kept under callId for options.resultTtl seconds, like a queue-mode result:<callId> key
+	 */
+	startCall(functionName: string, scope: string, parameters: any, item: any, callId: string, options: CallOptions = {}): void {
+		logger.log("🏗️ REGISTRY: Starting asynchronous in-memory call:", callId, "to", functionName)
+		void this.callFunction(functionName, scope, parameters, item, options)
+			.then((callResult) => {
+				if (!callResult.success || !callResult.result) {
+					const error = callResult.error || `Function '${functionName}' not found or no workers available`
+					this.storeCallResult(callId, { success: false, error, errorInfo: callResult.errorInfo }, options.resultTtl)
+					return
+				}
+				const returned = callResult.result[0] ? callResult.result[0].json : {}
+				this.storeCallResult(callId, { success: true, data: returned._functionReturn ?? null, binary: returned._functionReturnBinary }, options.resultTtl)
+			})
+			.catch((error) => {
+				// Anything thrown still ends the call, so Await Function Result does not wait for a result that never comes
+				logger.error("🏗️ REGISTRY: ❌ Asynchronous call failed:", callId, error)
+				const errorInfo = toFunctionErrorInfo(error)
+				this.storeCallResult(callId, { success: false, error: errorInfo.message, errorInfo }, options.resultTtl)
+			})
+	}
+
+	/**
+	 * Read the result of a call without consuming it
+	 * Returns null while the call is still running (or once its result has expired)
+	 */
+	async getCallResult(callId: string): Promise<CallResponse | null> {
+		if (!isQueueModeEnabled()) {
+			const stored = this.callResults.get(callId)
+			if (stored && stored.expiresAt <= Date.now()) {
+				this.callResults.delete(callId)
+				return null
+			}
+			return stored ? stored.response : null
+		}
+
+		return await this.circuitBreaker.execute(async () => {
+			return await this.connectionManager.executeOperation(async (client) => {
+				const result = await client.get(`${REDIS_KEY_PREFIX}result:${callId}`)
+				return result ? parseCallResult(result) : null
+			}, `get-call-result-${callId}`)
+		}, `get-call-result-${callId}`)
+	}
+
+	/**
+	 * Wait for the result of an asynchronous call without consuming it
+	 * Unlike waitForResponse the call is not abandoned on timeout, so it can be awaited again later
+	 */
+	async waitForCallResult(callId: string, timeout: number = this.CALL_TIMEOUT): Promise<CallResponse> {
+		const startTime = Date.now()
+		const pollInterval = isQueueModeEnabled() ? 100 : 10
+
+		while (timeout === 0 || Date.now() - startTime < timeout) {
+			const response = await this.getCallResult(callId)
+			if (response) {
+				return response
+			}
+			await new Promise((resolve) => setTimeout(resolve, pollInterval))
+		}
+
+		logger.warn("🏗️ REGISTRY: ⏱️ Gave up waiting for asynchronous call:", callId)
+		const errorInfo = createTimeoutErrorInfo(callId, timeout)
+		return { success: false, error: errorInfo.message, errorInfo }
+	}
+
+	/**
+	 * Keep the outcome of an in-memory asynchronous call until it expires
+	 */
+	private storeCallResult(callId: string, response: CallResponse, ttl: number = this.RESULT_TTL): void {
+		const now = Date.now()
+		for (const [storedCallId, stored] of this.callResults) {
+			if (stored.expiresAt <= now) {
+				this.callResults.delete(storedCallId)
+			}
+		}
+		this.callResults.set(callId, { response, expiresAt: now + ttl * 1000 })
+		logger.log("🏗️ REGISTRY: ✅ Asynchronous call result stored for:", callId)
+	}
+
+	/**
+	 * Cancel a call whose caller stopped waiting for it
+	 * A queued call that no worker has taken yet is skipped, a running one can check isCallCancelled, and its return is dropped
+	 */
+	async cancelCall(callId: string): Promise<void> {
+		if (!isQueueModeEnabled()) {
+			this.cancelInMemory(callId)
+			return
+		}
+
+		await this.circuitBreaker.execute(async () => {
+			await this.connectionManager.executeOperation(async (client) => {
+				await this.cancelInRedis(client, callId)
+			}, `cancel-call-${callId}`)
+		}, `cancel-call-${callId}`)
+	}
+
+	/**
+	 * Check whether the caller cancelled a call
+	 */
+	async isCallCancelled(callId: string): Promise<boolean> {
+		if (!isQueueModeEnabled()) {
+			const expiresAt = this.cancelledCalls.get(callId)
+			return expiresAt !== undefined && expiresAt > Date.now()
+		}
+
+		return await this.circuitBreaker.execute(async () => {
+			return await this.connectionManager.executeOperation(async (client) => {
+				return (await client.exists(`${REDIS_KEY_PREFIX}cancelled:${callId}`)) > 0
+			}, `is-call-cancelled-${callId}`)
+		}, `is-call-cancelled-${callId}`)
+	}
+
+	/**
+	 * Mark an in-memory call cancelled and abandoned, so its late return is dropped
+	 */
+	private cancelInMemory(callId: string): CallResponse {
+		this.returnValues.delete(callId)
+		this.returnErrors.delete(callId)
+		this.returnBinaries.delete(callId)
+		this.abandonCall(callId)
+		const now = Date.now()
+		for (const [cancelledCallId, expiresAt] of this.cancelledCalls) {
+			if (expiresAt <= now) {
+				this.cancelledCalls.delete(cancelledCallId)
+			}
+		}
+		this.cancelledCalls.set(callId, now + this.CANCEL_TTL * 1000)
+		logger.warn("🏗️ REGISTRY: 🛑 Call cancelled:", callId)
+		const errorInfo = createCancelledErrorInfo(callId)
+		return { success: false, error: errorInfo.message, errorInfo }
+	}
+
+	/**
+	 * Publish the cancel signal of a call and abandon it, so its late return is dropped
+	 */
+	private async cancelInRedis(client: any, callId: string): Promise<CallResponse> {
+		await client.setEx(`${REDIS_KEY_PREFIX}cancelled:${callId}`, this.CANCEL_TTL, Date.now().toString())
+		await client.setEx(`${REDIS_KEY_PREFIX}abandoned:${callId}`, this.ABANDONED_TTL, Date.now().toString())
+		await client.del(`${REDIS_KEY_PREFIX}result:${callId}`)
+		logger.warn("🏗️ REGISTRY: 🛑 Call cancelled:", callId)
+		const errorInfo = createCancelledErrorInfo(callId)
+		return { success: false, error: errorInfo.message, errorInfo }
+	}
+
+	/**
+	 * Record a stage of a call's span; the fields are merged into what other processes recorded for the call
+	 * Does nothing unless tracing is enabled (FUNCTION_TRACE_EXPORTER)
+	 */
+	async recordSpan(span: CallSpan): Promise<void> {
+		if (!isTracingEnabled()) {
+			return
+		}
+
+		if (!isQueueModeEnabled()) {
+			const spans = this.traces.get(span.traceId) || {}
+			spans[span.callId] = { ...spans[span.callId], ...span }
+			this.traces.set(span.traceId, spans, this.TRACE_TTL)
+			return
+		}
+
+		await this.circuitBreaker.execute(async () => {
+			await this.connectionManager.executeOperation(async (client) => {
+				const spanKey = `${REDIS_KEY_PREFIX}span:${span.callId}`
+				const traceKey = `${REDIS_KEY_PREFIX}trace:${span.traceId}`
+				const fields: Record<string, string> = {}
+				for (const [field, value] of Object.entries(span)) {
+					if (value !== undefined) {
+						fields[field] = String(value)
+					}
+				}
+				// Separate hash fields let the caller and the worker record their stages without overwriting each other
+				await client.hSet(spanKey, fields)
+				await client.sAdd(traceKey, span.callId)
+				await client.expire(spanKey, this.TRACE_TTL)
+				await client.expire(traceKey, this.TRACE_TTL)
+			}, `record-span-${span.callId}`)
+		}, `record-span-${span.callId}`)
+	}
+
+	/**
+	 * Get every recorded span of a trace; parentCallId links them into the call tree
+	 */
+	async getTrace(traceId: string): Promise<CallSpan[]> {
+		if (!isQueueModeEnabled()) {
+			return Object.values(this.traces.get(traceId) || {})
+		}
+
+		return await this.circuitBreaker.execute(async () => {
+			return await this.connectionManager.executeOperation(async (client) => {
+				const callIds: string[] = await client.sMembers(`${REDIS_KEY_PREFIX}trace:${traceId}`)
+				const spans: CallSpan[] = []
+				for (const callId of callIds) {
+					const fields: Record<string, string> = await client.hGetAll(`${REDIS_KEY_PREFIX}span:${callId}`)
+					if (Object.keys(fields).length > 0) {
+						spans.push(parseSpanFields(fields))
+					}
+				}
+				return spans
+			}, `get-trace-${traceId}`)
+		}, `get-trace-${traceId}`)
+	}
+
+	/**
+	 * Look up a cached result of a cacheable function (functionName is the registry name, including the version if any)
+	 * Returns null when nothing is cached under the key or the result has expired
+	 */
+	async getCachedResult(functionName: string, scope: string, cacheKey: string): Promise<CachedResult | null> {
+		if (!isQueueModeEnabled()) {
+			return this.resultCache.get(`${functionName}:${scope}:${cacheKey}`) || null
+		}
+
+		return await this.circuitBreaker.execute(async () => {
+			return await this.connectionManager.executeOperation(async (client) => {
+				const cacheKeyPrefix = `${REDIS_KEY_PREFIX}cache:${functionName}:${scope}`
+				const generation = (await client.get(`${cacheKeyPrefix}:generation`)) || "0"
+				const cached = await client.get(`${cacheKeyPrefix}:${generation}:${cacheKey}`)
+				return cached ? (JSON.parse(cached) as CachedResult) : null
+			}, `get-cached-result-${functionName}`)
+		}, `get-cached-result-${functionName}`)
+	}
+
+	/**
+	 * Cache the result of a cacheable function for ttl seconds
+	 */
+	async storeCachedResult(functionName: string, scope: string, cacheKey: string, result: CachedResult, ttl: number): Promise<void> {
+		if (!isQueueModeEnabled()) {
+			this.resultCache.set(`${functionName}:${scope}:${cacheKey}`, result, ttl)
+			logger.log("🏗️ REGISTRY: ✅ Result cached in memory for:", functionName)
+			return
+		}
+
+		await this.circuitBreaker.execute(async () => {
+			await this.connectionManager.executeOperation(async (client) => {
+				const cacheKeyPrefix = `${REDIS_KEY_PREFIX}cache:${functionName}:${scope}`
+				const generation = (await client.get(`${cacheKeyPrefix}:generation`)) || "0"
+				await client.setEx(`${cacheKeyPrefix}:${generation}:${cacheKey}`, ttl, JSON.stringify(result))
+				logger.log("🏗️ REGISTRY: ✅ Result cached for:", functionName)
+			}, `store-cached-result-${functionName}`)
+		}, `store-cached-result-${functionName}`)
+	}
+
+	/**
+	 * Drop every cached result of a function
+	 * In queue mode this bumps the function's cache generation, so old entries are never read again and expire on their own
+	 */
+	async invalidateFunctionCache(functionName: string, scope: string): Promise<void> {
+		const removed = this.resultCache.deletePrefix(`${functionName}:${scope}:`)
+		if (!isQueueModeEnabled()) {
+			logger.log(`🏗️ REGISTRY: 🗑️ Invalidated ${removed} cached results of:`, functionName)
+			return
+		}
+
+		await this.circuitBreaker.execute(async () => {
+			await this.connectionManager.executeOperation(async (client) => {
+				await client.incr(`${REDIS_KEY_PREFIX}cache:${functionName}:${scope}:generation`)
+				logger.log("🏗️ REGISTRY: 🗑️ Invalidated cached results of:", functionName)
+			}, `invalidate-cache-${functionName}`)
+		}, `invalidate-cache-${functionName}`)
+	}
+
 	/**
 	 * Get available workers for a function
 	 */
@@ -687,10 +1441,21 @@ export class FunctionRegistry {
 	/**
 	 * Wait for return value (for in-memory mode)
 	 */
-	async waitForReturn(callId: string, timeout: number = 300000): Promise<any> {
+	async waitForReturn(callId: string, timeout: number = this.CALL_TIMEOUT, signal?: AbortSignal): Promise<any> {
 		const startTime = Date.now()
 
-		while (Date.now() - startTime < timeout) {
+		while (timeout === 0 || Date.now() - startTime < timeout) {
+			if (signal && signal.aborted) {
+				throw FunctionCallError.fromErrorInfo(this.cancelInMemory(callId).errorInfo!)
+			}
+
+			const returnError = this.returnErrors.get(callId)
+			if (returnError) {
+				this.returnErrors.delete(callId)
+				logger.log("🏗️ REGISTRY: ❌ Return rejected for call:", callId, returnError)
+				throw FunctionCallError.fromErrorInfo(returnError)
+			}
+
 			const value = this.returnValues.get(callId)
 			if (value !== undefined) {
 				// Clean up the return value after retrieving it
@@ -703,9 +1468,13 @@ export class FunctionRegistry {
 			await new Promise((resolve) => setTimeout(resolve, 10))
 		}
 
-		// Timeout - clean up and throw error
+		// Timeout - clean up and abandon the call so a late ReturnFromFunction is ignored
 		this.returnValues.delete(callId)
-		throw new Error(`Function call timeout after ${timeout}ms for call: ${callId}`)
+		this.returnErrors.delete(callId)
+		this.returnBinaries.delete(callId)
+		this.abandonCall(callId)
+		logger.warn("🏗️ REGISTRY: ⏱️ Call abandoned after timeout:", callId)
+		throw FunctionCallError.fromErrorInfo(createTimeoutErrorInfo(callId, timeout))
 	}
 
 	/**
@@ -726,6 +1495,15 @@ export class FunctionRegistry {
 		return value || null
 	}
 
+	/**
+	 * Take the binary properties returned alongside a call's return value (in-memory mode)
+	 */
+	takeReturnBinary(callId: string): SerializedBinaryMap | undefined {
+		const binary = this.returnBinaries.get(callId)
+		this.returnBinaries.delete(callId)
+		return binary
+	}
+
 	/**
 	 * Clear function return value
 	 */
@@ -734,10 +1512,30 @@ export class FunctionRegistry {
 		logger.log("🏗️ REGISTRY: ✅ Return value cleared for call:", callId)
 	}
 
+	/**
+	 * Direct batch call (in-memory mode): runs every entry in a single execution of the function
+	 */
+	async callFunctionBatch(functionName: string, scope: string, entries: BatchCallEntry[], options: CallOptions = {}): Promise<BatchCallResponse> {
+		const definition = this.inMemoryFunctions.get(`${functionName}:${scope}`)
+		if (!definition || !definition.batchExecutionFunction) {
+			logger.log("🏗️ REGISTRY: Function not found in memory:", functionName)
+			return { success: false, error: `Function '${functionName}' not found in scope '${scope}'` }
+		}
+
+		logger.log("🏗️ REGISTRY: Direct in-memory batch call:", functionName, "scope:", scope, `(${entries.length} items)`)
+		try {
+			assertDeadline(functionName, options)
+			return await definition.batchExecutionFunction(entries, options)
+		} catch (error) {
+			logger.error("🏗️ REGISTRY: Error in batch execution function:", error)
+			return { success: false, error: error.message, errorInfo: toFunctionErrorInfo(error) }
+		}
+	}
+
 	/**
 	 * Direct function call (fallback for non-queue mode)
 	 */
-	async callFunction(functionName: string, scope: string, parameters: any, item: any): Promise<CallResult> {
+	async callFunction(functionName: string, scope: string, parameters: any, item: any, options: CallOptions = {}): Promise<CallResult> {
 		// Handle in-memory mode with direct function calls
 		if (!isQueueModeEnabled()) {
 			logger.log("🏗️ REGISTRY: Direct in-memory function call:", functionName, "scope:", scope)
@@ -758,7 +1556,8 @@ export class FunctionRegistry {
 			if (definition.executionFunction) {
 				logger.log("🏗️ REGISTRY: Calling stored execution function")
 				try {
-					const result = await definition.executionFunction(parameters, item)
+					assertDeadline(functionName, options)
+					const result = await definition.executionFunction(parameters, item, options)
 					return {
 						success: true,
 						result: result,
@@ -769,6 +1568,7 @@ export class FunctionRegistry {
 					return {
 						success: false,
 						error: error.message,
+						errorInfo: toFunctionErrorInfo(error),
 					}
 				}
 			}
@@ -813,19 +1613,26 @@ export class FunctionRegistry {
 	/**
 	 * Publish response (for ReturnFromFunction compatibility)
 	 */
-	async publishResponse(responseChannel: string, response: any): Promise<void> {
+	async publishResponse(responseChannel: string, response: any, ttl: number = this.RESULT_TTL): Promise<void> {
 		await this.circuitBreaker.execute(async () => {
 			await this.connectionManager.executeOperation(async (client) => {
 				const callId = responseChannel.replace(`${REDIS_KEY_PREFIX}function:response:`, "")
+				if (await client.exists(`${REDIS_KEY_PREFIX}abandoned:${callId}`)) {
+					logger.warn("🏗️ REGISTRY: ⚠️ Dropping late response for abandoned call:", callId)
+					return
+				}
+
 				const resultData = {
 					callId,
 					result: JSON.stringify(response.data),
 					error: response.error,
+					errorInfo: response.errorInfo,
+					binary: response.binary,
 					timestamp: Date.now(),
 					status: response.success ? "success" : "error",
 				}
 
-				await client.setEx(`${REDIS_KEY_PREFIX}result:${callId}`, 300, JSON.stringify(resultData))
+				await client.setEx(`${REDIS_KEY_PREFIX}result:${callId}`, ttl, JSON.stringify(resultData))
 				logger.log("🏗️ REGISTRY: ✅ Response published for:", callId)
 			}, `publish-response-${responseChannel}`)
 		}, `publish-response-${responseChannel}`)
@@ -868,11 +1675,58 @@ export class FunctionRegistry {
 	/**
 	 * Resolve return (for ReturnFromFunction compatibility)
 	 */
-	async resolveReturn(callId: string, value: any): Promise<void> {
+	async resolveReturn(callId: string, value: any, binary?: SerializedBinaryMap): Promise<void> {
+		if (this.takeAbandonedCall(callId)) {
+			return
+		}
+		if (binary && Object.keys(binary).length > 0) {
+			this.returnBinaries.set(callId, binary)
+		}
 		this.setFunctionReturnValue(callId, value)
 		logger.log("🏗️ REGISTRY: ✅ Return resolved for:", callId)
 	}
 
+	/**
+	 * Reject return with a structured error (in-memory counterpart of publishing an error response)
+	 */
+	async rejectReturn(callId: string, errorInfo: FunctionErrorInfo): Promise<void> {
+		if (this.takeAbandonedCall(callId)) {
+			return
+		}
+		this.returnErrors.set(callId, errorInfo)
+		logger.log("🏗️ REGISTRY: ✅ Return rejected for:", callId, "code:", errorInfo.code)
+	}
+
+	/**
+	 * Mark an in-memory call abandoned for ABANDONED_TTL, like the abandoned:<callId> key in queue mode
+	 * Expired entries are pruned here, so calls that never return do not pile up
+	 */
+	private abandonCall(callId: string): void {
+		const now = Date.now()
+		for (const [abandonedCallId, expiresAt] of this.abandonedCalls) {
+			if (expiresAt <= now) {
+				this.abandonedCalls.delete(abandonedCallId)
+			}
+		}
+		this.abandonedCalls.set(callId, now + this.ABANDONED_TTL * 1000)
+	}
+
+	/**
+	 * Forget an abandoned in-memory call, returning whether it was abandoned
+	 */
+	private takeAbandonedCall(callId: string): boolean {
+		const expiresAt = this.abandonedCalls.get(callId)
+		if (expiresAt === undefined) {
+			return false
+		}
+		this.abandonedCalls.delete(callId)
+		if (expiresAt <= Date.now()) {
+			return false
+		}
+		logger.warn("🏗️ REGISTRY: ⚠️ Dropping late return for abandoned call:", callId)
+		return true
+	}
+
 	/**
 	 * Health check
 	 */
@@ -1022,20 +1876,20 @@ export class FunctionRegistry {
 	async registerFunctionWithCleanup(definition: FunctionDefinition): Promise<void> {
 		logger.log(`🔍 PREVENTION: Registering function ${definition.name} in scope ${definition.scope}`)
 
-		// Check for existing registrations
-		const existingFunctions = await this.getAvailableFunctions(definition.workflowId)
-		const existingFunction = existingFunctions.find((f) => f.value === definition.name)
+		// Check for existing registrations of the same version
+		const qualifiedName = qualifyFunctionName(definition.name, definition.version)
+		const existingFunction = await this.getFunctionDefinition(qualifiedName, definition.workflowId)
 
-		if (existingFunction) {
-			logger.warn(`🚨 PREVENTION: Function ${definition.name} already exists in workflow ${definition.workflowId}`)
+		if (existingFunction && existingFunction.version === definition.version) {
+			logger.warn(`🚨 PREVENTION: Function ${qualifiedName} already exists in workflow ${definition.workflowId}`)
 
 			// Check if it has healthy workers
-			const workers = await this.getAvailableWorkers(definition.name)
+			const workers = await this.getAvailableWorkers(qualifiedName)
 			const healthyWorkers = []
 			const staleWorkers = []
 
 			for (const workerId of workers) {
-				const isHealthy = await this.isWorkerHealthy(workerId, definition.name)
+				const isHealthy = await this.isWorkerHealthy(workerId, qualifiedName)
 				if (isHealthy) {
 					healthyWorkers.push(workerId)
 				} else {
@@ -1062,9 +1916,13 @@ export class FunctionRegistry {
 		logger.log("🏗️ REGISTRY: Shutting down function registry...")
 		await this.connectionManager.shutdown()
 		this.returnValues.clear()
+		this.returnErrors.clear()
+		this.returnBinaries.clear()
 		this.inMemoryFunctions.clear()
 		this.workflowFunctionCache.clear()
 		this.functionToWorkflowCache.clear()
+		this.functionIdentities.clear()
+		this.functionAliases.clear()
 		logger.log("🏗️ REGISTRY: ✅ Function registry shutdown completed")
 	}
 
@@ -1114,4 +1972,246 @@ export class FunctionRegistry {
 		const functions = this.workflowFunctionCache.get(workflowId)
 		return functions ? Array.from(functions) : []
 	}
+
+	/**
+	 * Record which name a Function node registers under, and alias its old name when it was renamed
+	 * The registration under the old name is removed so callers of the old name reach the renamed function
+	 */
+	private async recordFunctionIdentity(definition: FunctionDefinition, qualifiedName: string): Promise<void> {
+		if (!definition.nodeId) {
+			return
+		}
+
+		const previous = await this.getFunctionIdentity(definition.nodeId, definition.workflowId)
+		const renamed = !!previous && previous.name !== definition.name
+		const identity: FunctionIdentity = {
+			name: definition.name,
+			qualifiedName,
+			previousNames: previous ? [...previous.previousNames] : [],
+		}
+		if (renamed) {
+			identity.previousNames = identity.previousNames.filter((entry) => entry.name !== definition.name)
+			identity.previousNames.push({ name: previous!.name, renamedAt: Date.now() })
+			logger.log(`🏗️ REGISTRY: Function node ${definition.nodeId} renamed from ${previous!.name} to ${definition.name}`)
+		}
+
+		// Always store in memory for in-memory mode support
+		const identityKey = `${definition.workflowId}:${definition.nodeId}`
+		this.functionIdentities.set(identityKey, identity)
+		if (renamed) {
+			this.functionAliases.set(`${definition.workflowId}:${previous!.name}`, definition.nodeId)
+		}
+		// A name in use again is no longer an alias for another node
+		this.functionAliases.delete(`${definition.workflowId}:${definition.name}`)
+
+		if (renamed && previous!.qualifiedName !== qualifiedName) {
+			await this.unregisterFunction(previous!.qualifiedName, definition.scope)
+		}
+
+		if (!isQueueModeEnabled()) {
+			return
+		}
+
+		await this.circuitBreaker.execute(async () => {
+			await this.connectionManager.executeOperation(async (client) => {
+				const identityKey = `${REDIS_KEY_PREFIX}function_identity:${definition.workflowId}:${definition.nodeId}`
+
+				await client.hSet(identityKey, {
+					name: identity.name,
+					qualifiedName: identity.qualifiedName,
+					previousNames: JSON.stringify(identity.previousNames),
+				})
+				await client.expire(identityKey, this.IDENTITY_TTL)
+
+				if (renamed) {
+					const aliasKey = `${REDIS_KEY_PREFIX}function_alias:${definition.workflowId}:${previous!.name}`
+					await client.setEx(aliasKey, this.IDENTITY_TTL, definition.nodeId)
+				}
+				await client.del(`${REDIS_KEY_PREFIX}function_alias:${definition.workflowId}:${definition.name}`)
+			}, `record-identity-${definition.nodeId}`)
+		}, `record-identity-${definition.nodeId}`)
+	}
+
+	/**
+	 * Get the recorded identity of a Function node (both modes)
+	 */
+	private async getFunctionIdentity(nodeId: string, workflowId: string): Promise<FunctionIdentity | null> {
+		if (!isQueueModeEnabled()) {
+			return this.functionIdentities.get(`${workflowId}:${nodeId}`) || null
+		}
+
+		return await this.circuitBreaker.execute(async () => {
+			return await this.connectionManager.executeOperation(async (client) => {
+				const identityData = await client.hGetAll(`${REDIS_KEY_PREFIX}function_identity:${workflowId}:${nodeId}`)
+				if (!identityData || !identityData.name) {
+					return null
+				}
+
+				let previousNames: FunctionIdentity["previousNames"] = []
+				try {
+					previousNames = identityData.previousNames ? JSON.parse(identityData.previousNames) : []
+				} catch (error) {
+					logger.error(`🏗️ REGISTRY: Error parsing rename history for node ${nodeId}:`, error)
+				}
+
+				return { name: identityData.name, qualifiedName: identityData.qualifiedName || identityData.name, previousNames }
+			}, `get-identity-${nodeId}`)
+		}, `get-identity-${nodeId}`)
+	}
+
+	/**
+	 * Look up the node ID an old function name is aliased to (both modes)
+	 */
+	private async getFunctionAlias(name: string, workflowId: string): Promise<string | null> {
+		if (!isQueueModeEnabled()) {
+			return this.functionAliases.get(`${workflowId}:${name}`) || null
+		}
+
+		return await this.circuitBreaker.execute(async () => {
+			return await this.connectionManager.executeOperation(async (client) => {
+				return await client.get(`${REDIS_KEY_PREFIX}function_alias:${workflowId}:${name}`)
+			}, `get-alias-${name}`)
+		}, `get-alias-${name}`)
+	}
+
+	/**
+	 * List every function version registered for a workflow (both modes)
+	 */
+	private async listFunctionDefinitions(workflowId: string): Promise<FunctionDefinition[]> {
+		// Handle in-memory mode first
+		if (!isQueueModeEnabled()) {
+			const definitions: FunctionDefinition[] = []
+
+			// Get functions for this specific workflow from cache
+			for (const qualifiedName of this.getFunctionsForWorkflow(workflowId)) {
+				for (const [, definition] of this.inMemoryFunctions.entries()) {
+					if (qualifyFunctionName(definition.name, definition.version) === qualifiedName && definition.workflowId === workflowId) {
+						definitions.push(definition)
+						break
+					}
+				}
+			}
+
+			logger.log("🏗️ REGISTRY: Found in-memory functions for workflow", workflowId, ":", definitions.length)
+			return definitions
+		}
+
+		return await this.circuitBreaker.execute(async () => {
+			return await this.connectionManager.executeOperation(async (client) => {
+				const registryKey = `${REDIS_KEY_PREFIX}registry:functions`
+				const functionKeys = await client.sMembers(registryKey)
+				const definitions: FunctionDefinition[] = []
+
+				for (const functionKey of functionKeys) {
+					const [name, scope] = functionKey.split(":")
+					const fullKey = `${REDIS_KEY_PREFIX}function:${name}:${scope}`
+					const functionData = await client.hGetAll(fullKey)
+
+					if (functionData && functionData.workflowId === workflowId) {
+						definitions.push(this.parseFunctionData(functionData))
+					}
+				}
+
+				return definitions
+			}, `list-functions-${workflowId}`)
+		}, `list-functions-${workflowId}`)
+	}
+
+	/**
+	 * List every globally visible function version across all workflows (both modes)
+	 */
+	private async listGlobalFunctionDefinitions(): Promise<FunctionDefinition[]> {
+		// Handle in-memory mode first
+		if (!isQueueModeEnabled()) {
+			return Array.from(this.inMemoryFunctions.values()).filter((definition) => definition.visibility === "global" && definition.globalName)
+		}
+
+		return await this.circuitBreaker.execute(async () => {
+			return await this.connectionManager.executeOperation(async (client) => {
+				const globalRegistryKey = `${REDIS_KEY_PREFIX}registry:global_functions`
+				const functionKeys = await client.sMembers(globalRegistryKey)
+				const definitions: FunctionDefinition[] = []
+
+				for (const functionKey of functionKeys) {
+					const [name, scope] = functionKey.split(":")
+					const fullKey = `${REDIS_KEY_PREFIX}function:${name}:${scope}`
+					const functionData = await client.hGetAll(fullKey)
+
+					// The definition hash expires on its own; drop index entries that outlived it
+					if (!functionData || !functionData.name) {
+						await client.sRem(globalRegistryKey, functionKey)
+						continue
+					}
+
+					if (functionData.visibility === "global" && functionData.globalName) {
+						definitions.push(this.parseFunctionData(functionData))
+					}
+				}
+
+				return definitions
+			}, `list-global-functions`)
+		}, `list-global-functions`)
+	}
+
+	/**
+	 * Pick the version of a function to use from its registered definitions
+	 * Without a range the latest stable version wins, falling back to an unversioned registration
+	 */
+	private selectFunctionVersion(candidates: FunctionDefinition[], versionRange?: string): FunctionDefinition | null {
+		const versioned = candidates.filter((definition) => definition.version)
+		const versions = versioned.map((definition) => definition.version!)
+
+		if (!versionRange || versionRange.trim() === "") {
+			const latest = resolveVersionRange(versions)
+			return versioned.find((definition) => definition.version === latest) || candidates.find((definition) => !definition.version) || candidates[0] || null
+		}
+
+		const match = resolveVersionRange(versions, versionRange)
+		return versioned.find((definition) => definition.version === match) || null
+	}
+
+	/**
+	 * Build the dropdown description for a function, including its declared return shape
+	 */
+	private describeFunction(definition: FunctionDefinition): string {
+		const description = definition.description && definition.description.trim() ? definition.description : `Function: ${definition.name}`
+		if (!definition.returnSchema) {
+			return description
+		}
+		return `${description} → Returns: ${describeJsonSchema(definition.returnSchema)}`
+	}
+
+	/**
+	 * Convert a Redis function hash back into a definition
+	 * Malformed JSON fields are logged and treated as absent
+	 */
+	private parseFunctionData(functionData: Record<string, string>): FunctionDefinition {
+		const parseJsonField = (field: string, fallback: any) => {
+			if (!functionData[field]) {
+				return fallback
+			}
+			try {
+				return JSON.parse(functionData[field])
+			} catch (error) {
+				logger.error(`🏗️ REGISTRY: Error parsing ${field} for function ${functionData.name}:`, error)
+				return fallback
+			}
+		}
+
+		return {
+			name: functionData.name,
+			version: functionData.version || undefined,
+			visibility: functionData.visibility === "global" ? "global" : "workflow",
+			globalName: functionData.globalName || undefined,
+			scope: functionData.scope,
+			code: functionData.code || "",
+			parameters: parseJsonField("parameters", []),
+			parametersSchema: parseJsonField("parametersSchema", undefined),
+			returnSchema: parseJsonField("returnSchema", undefined),
+			cache: parseJsonField("cache", undefined),
+			workflowId: functionData.workflowId,
+			nodeId: functionData.nodeId,
+			description: functionData.description || "",
+		}
+	}
 }
@@ -0,0 +1,301 @@
+/**
+ * Lightweight JSON Schema validator for function parameter and return contracts
+ *
+ * Supports the commonly used subset of JSON Schema (draft-07 style keywords):
+ * - type (including "integer" and "null", single or array form)
+ * - enum, const
+ * - properties, required, additionalProperties
+ * - items, minItems, maxItems, uniqueItems
+ * - minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf
+ * - minLength, maxLength, pattern
+ * - allOf, anyOf, oneOf, not
+ */
+
+export type JsonSchema = {
+	type?: string | string[]
+	enum?: any[]
+	const?: any
+	properties?: Record<string, JsonSchema>
+	required?: string[]
+	additionalProperties?: boolean | JsonSchema
+	items?: JsonSchema
+	minItems?: number
+	maxItems?: number
+	uniqueItems?: boolean
+	minimum?: number
+	maximum?: number
+	exclusiveMinimum?: number
+	exclusiveMaximum?: number
+	multipleOf?: number
+	minLength?: number
+	maxLength?: number
+	pattern?: string
+	allOf?: JsonSchema[]
+	anyOf?: JsonSchema[]
+	oneOf?: JsonSchema[]
+	not?: JsonSchema
+	title?: string
+	description?: string
+	[keyword: string]: any
+}
+
+export interface JsonSchemaError {
+	path: string
+	message: string
+}
+
+/**
+ * Parse a schema from a node parameter value (JSON string or object)
+ * Returns undefined when no schema was provided
+ */
+export function parseJsonSchema(raw: unknown, label: string): JsonSchema | undefined {
+	if (raw === undefined || raw === null) {
+		return undefined
+	}
+
+	let schema: unknown = raw
+	if (typeof raw === "string") {
+		if (raw.trim() === "" || raw.trim() === "{}") {
+			return undefined
+		}
+		try {
+			schema = JSON.parse(raw)
+		} catch (error) {
+			throw new Error(`${label} is not valid JSON: ${error.message}`)
+		}
+	}
+
+	if (typeof schema !== "object" || schema === null || Array.isArray(schema)) {
+		throw new Error(`${label} must be a JSON object`)
+	}
+
+	if (Object.keys(schema).length === 0) {
+		return undefined
+	}
+
+	return schema as JsonSchema
+}
+
+/**
+ * Validate a value against a schema, collecting every error
+ */
+export function validateJsonSchema(schema: JsonSchema, value: any, path: string = "$"): JsonSchemaError[] {
+	const errors: JsonSchemaError[] = []
+
+	if (schema.type !== undefined) {
+		const allowedTypes = Array.isArray(schema.type) ? schema.type : [schema.type]
+		if (!allowedTypes.some((type) => matchesType(type, value))) {
+			errors.push({ path, message: `must be of type ${allowedTypes.join(" | ")} (got ${describeValueType(value)})` })
+			// Further keyword checks would only add noise once the type is wrong
+			return errors
+		}
+	}
+
+	if (schema.enum !== undefined && !schema.enum.some((allowed) => isDeepEqual(allowed, value))) {
+		errors.push({ path, message: `must be one of ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(", ")}` })
+	}
+
+	if (schema.const !== undefined && !isDeepEqual(schema.const, value)) {
+		errors.push({ path, message: `must be equal to ${JSON.stringify(schema.const)}` })
+	}
+
+	if (typeof value === "number") {
+		if (schema.minimum !== undefined && value < schema.minimum) {
+			errors.push({ path, message: `must be >= ${schema.minimum}` })
+		}
+		if (schema.maximum !== undefined && value > schema.maximum) {
+			errors.push({ path, message: `must be <= ${schema.maximum}` })
+		}
+		if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+			errors.push({ path, message: `must be > ${schema.exclusiveMinimum}` })
+		}
+		if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+			errors.push({ path, message: `must be < ${schema.exclusiveMaximum}` })
+		}
+		if (schema.multipleOf !== undefined && schema.multipleOf > 0 && !Number.isInteger(value / schema.multipleOf)) {
+			errors.push({ path, message: `must be a multiple of ${schema.multipleOf}` })
+		}
+	}
+
+	if (typeof value === "string") {
+		if (schema.minLength !== undefined && value.length < schema.minLength) {
+			errors.push({ path, message: `must have at least ${schema.minLength} characters` })
+		}
+		if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+			errors.push({ path, message: `must have at most ${schema.maxLength} characters` })
+		}
+		if (schema.pattern !== undefined) {
+			let matches = false
+			try {
+				matches = new RegExp(schema.pattern, "u").test(value)
+			} catch (error) {
+				errors.push({ path, message: `has an invalid pattern in its schema: ${schema.pattern}` })
+				matches = true
+			}
+			if (!matches) {
+				errors.push({ path, message: `must match pattern ${schema.pattern}` })
+			}
+		}
+	}
+
+	if (Array.isArray(value)) {
+		if (schema.minItems !== undefined && value.length < schema.minItems) {
+			errors.push({ path, message: `must have at least ${schema.minItems} items` })
+		}
+		if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+			errors.push({ path, message: `must have at most ${schema.maxItems} items` })
+		}
+		if (schema.uniqueItems === true) {
+			for (let i = 0; i < value.length; i++) {
+				if (value.slice(0, i).some((previous) => isDeepEqual(previous, value[i]))) {
+					errors.push({ path, message: `must not contain duplicate items (duplicate at index ${i})` })
+					break
+				}
+			}
+		}
+		if (schema.items !== undefined) {
+			value.forEach((entry, index) => {
+				errors.push(...validateJsonSchema(schema.items!, entry, `${path}[${index}]`))
+			})
+		}
+	}
+
+	if (isPlainObject(value)) {
+		for (const requiredKey of schema.required || []) {
+			if (value[requiredKey] === undefined) {
+				errors.push({ path: `${path}.${requiredKey}`, message: "is required" })
+			}
+		}
+
+		const properties = schema.properties || {}
+		for (const [key, propertySchema] of Object.entries(properties)) {
+			if (value[key] !== undefined) {
+				errors.push(...validateJsonSchema(propertySchema, value[key], `${path}.${key}`))
+			}
+		}
+
+		if (schema.additionalProperties !== undefined && schema.additionalProperties !== true) {
+			for (const key of Object.keys(value)) {
+				if (key in properties) {
+					continue
+				}
+				if (schema.additionalProperties === false) {
+					errors.push({ path: `${path}.${key}`, message: "is not an allowed property" })
+				} else {
+					errors.push(...validateJsonSchema(schema.additionalProperties, value[key], `${path}.${key}`))
+				}
+			}
+		}
+	}
+
+	if (schema.allOf) {
+		for (const subSchema of schema.allOf) {
+			errors.push(...validateJsonSchema(subSchema, value, path))
+		}
+	}
+
+	if (schema.anyOf && !schema.anyOf.some((subSchema) => validateJsonSchema(subSchema, value, path).length === 0)) {
+		errors.push({ path, message: "must match at least one of the allowed schemas (anyOf)" })
+	}
+
+	if (schema.oneOf) {
+		const matchCount = schema.oneOf.filter((subSchema) => validateJsonSchema(subSchema, value, path).length === 0).length
+		if (matchCount !== 1) {
+			errors.push({ path, message: `must match exactly one of the allowed schemas (oneOf matched ${matchCount})` })
+		}
+	}
+
+	if (schema.not && validateJsonSchema(schema.not, value, path).length === 0) {
+		errors.push({ path, message: "must not match the disallowed schema (not)" })
+	}
+
+	return errors
+}
+
+/**
+ * Format schema errors as a single human-readable line
+ */
+export function formatJsonSchemaErrors(errors: JsonSchemaError[]): string {
+	return errors.map((error) => `${error.path} ${error.message}`).join("; ")
+}
+
+/**
+ * Summarize a schema as a compact, TypeScript-like shape for display
+ * e.g. { total: number, items: { sku: string }[] }
+ */
+export function describeJsonSchema(schema: JsonSchema, depth: number = 0): string {
+	if (depth > 3) {
+		return "…"
+	}
+
+	if (schema.enum) {
+		return schema.enum.map((value) => JSON.stringify(value)).join(" | ")
+	}
+	if (schema.const !== undefined) {
+		return JSON.stringify(schema.const)
+	}
+	for (const combinator of ["anyOf", "oneOf"] as const) {
+		if (schema[combinator]) {
+			return schema[combinator]!.map((subSchema) => describeJsonSchema(subSchema, depth + 1)).join(" | ")
+		}
+	}
+
+	const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []
+	if (types.length > 1) {
+		return types.map((type) => describeJsonSchema({ ...schema, type }, depth)).join(" | ")
+	}
+
+	const type = types[0] || (schema.properties ? "object" : schema.items ? "array" : "any")
+	if (type === "array") {
+		const itemShape = schema.items ? describeJsonSchema(schema.items, depth + 1) : "any"
+		return itemShape.includes(" | ") ? `(${itemShape})[]` : `${itemShape}[]`
+	}
+	if (type === "object" && schema.properties) {
+		const required = new Set(schema.required || [])
+		const fields = Object.entries(schema.properties).map(([key, propertySchema]) => `${key}${required.has(key) ? "" : "?"}: ${describeJsonSchema(propertySchema, depth + 1)}`)
+		return `{ ${fields.join(", ")} }`
+	}
+	return type === "integer" ? "number" : type
+}
+
+function matchesType(type: string, value: any): boolean {
+	switch (type) {
+		case "null":
+			return value === null
+		case "boolean":
+			return typeof value === "boolean"
+		case "integer":
+			return typeof value === "number" && Number.isInteger(value)
+		case "number":
+			return typeof value === "number" && !Number.isNaN(value)
+		case "string":
+			return typeof value === "string"
+		case "array":
+			return Array.isArray(value)
+		case "object":
+			return isPlainObject(value)
+		default:
+			return true
+	}
+}
+
+function describeValueType(value: any): string {
+	if (value === null) return "null"
+	if (Array.isArray(value)) return "array"
+	return typeof value
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+	return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isDeepEqual(a: any, b: any): boolean {
+	if (a === b) return true
+	if (typeof a !== typeof b || a === null || b === null || typeof a !== "object") return false
+	if (Array.isArray(a) !== Array.isArray(b)) return false
+
+	const keysA = Object.keys(a)
+	const keysB = Object.keys(b)
+	if (keysA.length !== keysB.length) return false
+	return keysA.every((key) => isDeepEqual(a[key], b[key]))
+}
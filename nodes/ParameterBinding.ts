@@ -0,0 +1,240 @@
+import { FunctionParameter, ParameterConstraints } from "./FunctionRegistry"
+import { FunctionCallError, FunctionErrorCodes } from "./FunctionCallError"
+import { JsonSchema, validateJsonSchema } from "./JsonSchemaValidator"
+import { functionRegistryLogger as logger } from "./Logger"
+import { isSerializedBinary } from "./BinaryTransfer"
+import { DefaultValueContext, evaluateDefaultValueExpression, isDefaultValueExpression } from "./DefaultValueExpression"
+
+/**
+ * A single problem found while binding call parameters
+ */
+export interface ParameterBindingIssue {
+	// Parameter name, or a path into the parameter for schema issues (e.g. "order.items[0].sku")
+	parameter: string
+	code: "required" | "unknown" | "type" | "default" | "option" | "schema" | "constraint"
+	message: string
+}
+
+/**
+ * Thrown when call parameters cannot be bound to a function's parameter definitions
+ * Lists every failing parameter, not just the first one
+ */
+export class ParameterBindingError extends FunctionCallError {
+	readonly issues: ParameterBindingIssue[]
+
+	constructor(functionName: string, issues: ParameterBindingIssue[]) {
+		super(
+			FunctionErrorCodes.PARAMETER_VALIDATION_FAILED,
+			`Invalid parameters for function '${functionName}': ${issues.map((issue) => `${issue.parameter} ${issue.message}`).join("; ")}`,
+			{ functionName, issues }
+		)
+		this.name = "ParameterBindingError"
+		this.issues = issues
+	}
+}
+
+/**
+ * Coerce a value to a parameter's declared type
+ * Throws a plain Error describing the problem when the value cannot be converted
+ */
+export function coerceParameterValue(type: string, value: any): any {
+	switch (type) {
+		case "number": {
+			if (typeof value === "number" && !Number.isNaN(value)) return value
+			if (typeof value === "string" && value.trim() !== "" && !Number.isNaN(Number(value))) return Number(value)
+			throw new Error(`must be a number (got ${JSON.stringify(value)})`)
+		}
+		case "boolean": {
+			if (typeof value === "boolean") return value
+			if (typeof value === "string" && ["true", "false"].includes(value.trim().toLowerCase())) return value.trim().toLowerCase() === "true"
+			throw new Error(`must be a boolean (got ${JSON.stringify(value)})`)
+		}
+		case "options":
+		case "string": {
+			if (typeof value === "string") return value
+			if (typeof value === "number" || typeof value === "boolean") return String(value)
+			throw new Error(`must be a string (got ${Array.isArray(value) ? "array" : typeof value})`)
+		}
+		case "object": {
+			const parsed = typeof value === "string" ? parseJsonValue(value) : value
+			if (typeof parsed === "object" && parsed !== null && !Array.isArray(parsed)) return parsed
+			throw new Error(`must be an object (got ${JSON.stringify(value)})`)
+		}
+		case "array": {
+			const parsed = typeof value === "string" ? parseJsonValue(value) : value
+			if (Array.isArray(parsed)) return parsed
+			throw new Error(`must be an array (got ${JSON.stringify(value)})`)
+		}
+		case "binary": {
+			if (isSerializedBinary(value)) return value
+			throw new Error("must be a binary file (pass the name of a binary property of the calling item)")
+		}
+		default:
+			return value
+	}
+}
+
+/**
+ * Translate parameter constraints into the equivalent JSON Schema keywords
+ */
+export function constraintsToJsonSchema(constraints: ParameterConstraints): JsonSchema {
+	// Every constraint except the custom message is already named after its JSON Schema keyword
+	const { errorMessage: _errorMessage, ...keywords } = constraints
+	return keywords
+}
+
+/**
+ * Format binding issues as one line per failing field
+ */
+export function formatParameterBindingIssues(issues: ParameterBindingIssue[]): string {
+	return issues.map((issue) => `${issue.parameter}: ${issue.message}`).join("\n")
+}
+
+/**
+ * Resolve a parameter's default value according to its declared type
+ * Expression defaults ({{ }}) are evaluated against the call context first
+ * Returns undefined when the parameter has no default
+ */
+export function parseDefaultValue(param: FunctionParameter, context?: DefaultValueContext): any {
+	if (param.defaultValue === undefined || param.defaultValue === "") {
+		return undefined
+	}
+	if (!isDefaultValueExpression(param.defaultValue)) {
+		return coerceParameterValue(param.type, param.defaultValue)
+	}
+
+	const value = evaluateDefaultValueExpression(param.defaultValue, context)
+	if (value === undefined || value === null || value === "") {
+		return undefined
+	}
+	return coerceParameterValue(param.type, value)
+}
+
+/**
+ * Bind call parameters to a function's parameter definitions
+ *
+ * This is the single place where both registry modes apply:
+ * - unknown parameter rejection
+ * - required checks
+ * - typed default values (including {{ }} expressions evaluated per call)
+ * - type coercion
+ * - constraints (ranges, patterns, lengths, item counts)
+ * - JSON Schema validation (per parameter and for the whole parameter set)
+ *
+ * Returns the bound values, or throws a ParameterBindingError listing every issue
+ */
+export function bindParameters(
+	functionName: string,
+	parameters: FunctionParameter[],
+	parametersSchema: JsonSchema | undefined,
+	callParameters: Record<string, any> | null | undefined,
+	context: DefaultValueContext = {}
+): Record<string, any> {
+	const input = callParameters || {}
+	const issues: ParameterBindingIssue[] = []
+	const bound: Record<string, any> = {}
+	const values: Record<string, any> = {}
+	const failed = new Set<string>()
+
+	const declaredNames = new Set(parameters.map((param) => param.name))
+	for (const name of Object.keys(input)) {
+		if (!declaredNames.has(name)) {
+			issues.push({ parameter: name, code: "unknown", message: "is not a parameter of this function" })
+		}
+	}
+
+	// Explicit values first so expression defaults can refer to them through $params
+	for (const param of parameters) {
+		const value = input[param.name]
+		if (value === undefined || value === null) {
+			continue
+		}
+		try {
+			values[param.name] = coerceParameterValue(param.type, value)
+		} catch (error) {
+			issues.push({ parameter: param.name, code: "type", message: error.message })
+			failed.add(param.name)
+		}
+	}
+
+	// Defaults in declaration order, so a default can also use the defaults declared before it
+	for (const param of parameters) {
+		if (param.name in values || failed.has(param.name)) {
+			continue
+		}
+		try {
+			const value = parseDefaultValue(param, { ...context, params: values })
+			if (value !== undefined && value !== null) {
+				values[param.name] = value
+			}
+		} catch (error) {
+			issues.push({ parameter: param.name, code: "default", message: `has an invalid default value: ${error.message}` })
+			failed.add(param.name)
+		}
+	}
+
+	for (const param of parameters) {
+		if (failed.has(param.name)) {
+			continue
+		}
+		const value = values[param.name]
+
+		if (value === undefined || value === null) {
+			if (param.required) {
+				issues.push({ parameter: param.name, code: "required", message: "is required" })
+			}
+			continue
+		}
+
+		if (param.options && param.options.length > 0 && !param.options.includes(value)) {
+			issues.push({
+				parameter: param.name,
+				code: "option",
+				message: `must be one of ${param.options.map((option) => JSON.stringify(option)).join(", ")} (got ${JSON.stringify(value)})`,
+			})
+			continue
+		}
+
+		if (param.constraints) {
+			const constraintErrors = validateJsonSchema(constraintsToJsonSchema(param.constraints), value, param.name)
+			if (constraintErrors.length > 0 && param.constraints.errorMessage) {
+				issues.push({ parameter: param.name, code: "constraint", message: param.constraints.errorMessage })
+			} else {
+				for (const constraintError of constraintErrors) {
+					issues.push({ parameter: constraintError.path, code: "constraint", message: constraintError.message })
+				}
+			}
+		}
+
+		if (param.schema) {
+			for (const schemaError of validateJsonSchema(param.schema, value, param.name)) {
+				issues.push({ parameter: schemaError.path, code: "schema", message: schemaError.message })
+			}
+		}
+
+		bound[param.name] = value
+	}
+
+	// Only check the parameter set as a whole once every individual parameter is valid
+	if (issues.length === 0 && parametersSchema) {
+		for (const schemaError of validateJsonSchema(parametersSchema, bound, "parameters")) {
+			issues.push({ parameter: schemaError.path, code: "schema", message: schemaError.message })
+		}
+	}
+
+	if (issues.length > 0) {
+		logger.log("🧩 BINDING: ❌ Parameter binding failed for", functionName, issues)
+		throw new ParameterBindingError(functionName, issues)
+	}
+
+	logger.log("🧩 BINDING: ✅ Parameters bound for", functionName, bound)
+	return bound
+}
+
+function parseJsonValue(value: string): any {
+	try {
+		return JSON.parse(value)
+	} catch {
+		return value
+	}
+}
@@ -0,0 +1,84 @@
+import { createHash } from "crypto"
+import { FunctionCacheSettings } from "./FunctionRegistry"
+import { SerializedBinaryMap } from "./BinaryTransfer"
+
+/**
+ * A function result kept for later calls with the same parameters
+ */
+export interface CachedResult {
+	data: any
+	binary?: SerializedBinaryMap
+}
+
+/**
+ * Build the cache key of a call from its bound parameters
+ * Only the key parameters of the cache settings count (all parameters when none are listed);
+ * object keys are sorted so equal values always hash the same
+ */
+export function createCacheKey(settings: FunctionCacheSettings, boundParameters: Record<string, any>): string {
+	const names = settings.keyParameters && settings.keyParameters.length > 0 ? settings.keyParameters : Object.keys(boundParameters)
+	const keyValues: Record<string, any> = {}
+	for (const name of [...names].sort()) {
+		keyValues[name] = boundParameters[name] ?? null
+	}
+	return createHash("sha256").update(stableStringify(keyValues)).digest("hex")
+}
+
+/**
+ * Least recently used cache with per-entry expiry, used for cached results in in-memory mode
+ */
+export class LruCache<T> {
+	private entries: Map<string, { value: T; expiresAt: number }> = new Map()
+
+	constructor(private readonly maxEntries: number) {}
+
+	get(key: string): T | undefined {
+		const entry = this.entries.get(key)
+		if (!entry) {
+			return undefined
+		}
+		this.entries.delete(key)
+		if (entry.expiresAt <= Date.now()) {
+			return undefined
+		}
+		// Re-insert so the entry becomes the most recently used
+		this.entries.set(key, entry)
+		return entry.value
+	}
+
+	set(key: string, value: T, ttlSeconds: number): void {
+		this.entries.delete(key)
+		this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 })
+		while (this.entries.size > this.maxEntries) {
+			// Maps iterate in insertion order, so the first key is the least recently used
+			this.entries.delete(this.entries.keys().next().value!)
+		}
+	}
+
+	/**
+	 * Remove every entry whose key starts with the prefix, returning how many were removed
+	 */
+	deletePrefix(prefix: string): number {
+		let removed = 0
+		for (const key of [...this.entries.keys()]) {
+			if (key.startsWith(prefix)) {
+				this.entries.delete(key)
+				removed++
+			}
+		}
+		return removed
+	}
+}
+
+function stableStringify(value: any): string {
+	if (Array.isArray(value)) {
+		return `[${value.map((entry) => stableStringify(entry)).join(",")}]`
+	}
+	if (value && typeof value === "object") {
+		return `{${Object.keys(value)
+			.sort()
+			.map((key) => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+			.join(",")}}`
+	}
+	return JSON.stringify(value) ?? "null"
+}
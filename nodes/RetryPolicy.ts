@@ -0,0 +1,120 @@
+import { FunctionErrorCodes, FunctionErrorInfo } from "./FunctionCallError"
+import { functionRegistryLogger as logger } from "./Logger"
+
+/**
+ * Kinds of failed calls a retry policy can retry
+ * - timeout: the function did not return within the call timeout
+ * - unavailable: no worker took the call (function not running, no healthy workers, circuit breaker open)
+ * - errorCode: the function reported an error whose code is listed in the policy, or threw an error marked retryable
+ */
+export type RetryCondition = "timeout" | "unavailable" | "errorCode"
+
+/**
+ * How a caller retries failed function calls
+ */
+export interface RetryPolicy {
+	// Total attempts including the first call (1 disables retries)
+	maxAttempts: number
+	backoff: "fixed" | "exponential"
+	// Milliseconds before the first retry
+	delay: number
+	// Upper bound for a single wait in milliseconds (0 = no bound)
+	maxDelay: number
+	// Randomize each wait between half and all of the computed delay
+	jitter: boolean
+	retryOn: RetryCondition[]
+	// Function-reported error codes retried when retryOn includes "errorCode"
+	errorCodes: string[]
+}
+
+// Messages of the errors raised when no worker can take a call
+const UNAVAILABLE_PATTERN = /not available|not found in scope|no workers available|no healthy workers|circuit breaker is (open|half_open)/i
+
+/**
+ * Work out which retry condition a failed call falls under
+ * Returns null for failures no policy retries (e.g. a misconfigured node)
+ */
+export function getRetryCondition(error: any): RetryCondition | null {
+	const errorInfo = getCallErrorInfo(error)
+	if (errorInfo && errorInfo.code) {
+		// A stopped execution or a passed deadline is never retried
+		if (errorInfo.code === FunctionErrorCodes.CALL_CANCELLED || errorInfo.code === FunctionErrorCodes.DEADLINE_EXCEEDED) {
+			return null
+		}
+		if (errorInfo.code === FunctionErrorCodes.FUNCTION_CALL_TIMEOUT) {
+			return "timeout"
+		}
+		if (errorInfo.code === FunctionErrorCodes.FUNCTION_UNAVAILABLE) {
+			return "unavailable"
+		}
+		// Any other code was reported by the function, whatever its message says
+		return "errorCode"
+	}
+	// Errors without a code only tell from their message that no worker took the call
+	if (error && typeof error.message === "string" && UNAVAILABLE_PATTERN.test(error.message)) {
+		return "unavailable"
+	}
+	return null
+}
+
+/**
+ * Check whether a policy retries a failed call
+ */
+export function shouldRetry(policy: RetryPolicy, error: any): boolean {
+	const condition = getRetryCondition(error)
+	if (!condition || !policy.retryOn.includes(condition)) {
+		return false
+	}
+	if (condition !== "errorCode") {
+		return true
+	}
+	const errorInfo = getCallErrorInfo(error)!
+	return errorInfo.retryable === true || policy.errorCodes.includes(errorInfo.code)
+}
+
+/**
+ * Milliseconds to wait after a failed attempt (attempt is 1 for the first call)
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+	const base = policy.backoff === "exponential" ? policy.delay * Math.pow(2, attempt - 1) : policy.delay
+	const bounded = policy.maxDelay > 0 ? Math.min(base, policy.maxDelay) : base
+	if (!policy.jitter) {
+		return bounded
+	}
+	return Math.round(bounded / 2 + Math.random() * (bounded / 2))
+}
+
+/**
+ * Run an operation, retrying failures the policy covers until it succeeds or runs out of attempts
+ * The operation receives the attempt number; the last failure is rethrown
+ */
+export async function runWithRetry<T>(policy: RetryPolicy, operation: (attempt: number) => Promise<T>): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await operation(attempt)
+		} catch (error) {
+			if (attempt >= policy.maxAttempts || !shouldRetry(policy, error)) {
+				throw error
+			}
+			const delay = getRetryDelay(policy, attempt)
+			logger.log(`🔁 RETRY: Attempt ${attempt}/${policy.maxAttempts} failed (${error.message}), retrying in ${delay}ms`)
+			await new Promise((resolve) => setTimeout(resolve, delay))
+		}
+	}
+}
+
+/**
+ * Structured error information of a failed call, whether thrown by the registry or wrapped in a node error
+ */
+export function getCallErrorInfo(error: any): FunctionErrorInfo | undefined {
+	if (!error) {
+		return undefined
+	}
+	if (error.context && error.context.errorInfo) {
+		return error.context.errorInfo
+	}
+	if (typeof error.code === "string" && typeof error.toErrorInfo === "function") {
+		return error.toErrorInfo()
+	}
+	return undefined
+}
@@ -0,0 +1,137 @@
+import { createContext, Script } from "vm"
+import { Worker } from "worker_threads"
+import { functionRegistryLogger as logger } from "./Logger"
+
+/**
+ * Where Return Code runs
+ * - context: an isolated vm context in the n8n process, interrupted when it runs past the timeout
+ * - worker: a worker thread with its own heap, so the memory limit is enforced too (slower to start)
+ */
+export type SandboxIsolation = "context" | "worker"
+
+export interface SandboxOptions {
+	isolation: SandboxIsolation
+	// Milliseconds the code may run
+	timeout: number
+	// Megabytes of heap the worker may use (worker isolation only)
+	memoryLimit: number
+}
+
+/**
+ * The only values Return Code sees besides the built-ins of its own context (Date, Math, JSON, ...)
+ */
+export interface SandboxInput {
+	$json: any
+	$binary: any
+	$index: number
+	$item: any
+}
+
+export type SandboxLogLevel = "log" | "warn" | "error"
+
+// User code starts on line 19 of the script, reported as line 1
+const SCRIPT_OPTIONS = { filename: "returnCode.js", lineOffset: -18 }
+
+// Milliseconds a worker gets on top of the timeout to start up before it is terminated
+const WORKER_STARTUP_GRACE = 2000
+
+/**
+ * Run Return Code in a sandbox and return its result
+ * Values cross the sandbox boundary as serialized data, so the code can never reach objects of the n8n process;
+ * console output is passed to log as formatted strings
+ */
+export async function runReturnCode(code: string, input: SandboxInput, options: SandboxOptions, log: (level: SandboxLogLevel, message: string) => void): Promise<any> {
+	const serializedInput = JSON.stringify(input)
+	const serializedResult = options.isolation === "worker" ? await runInWorker(code, serializedInput, options, log) : runInContext(code, serializedInput, options.timeout, log)
+	return serializedResult === undefined ? undefined : JSON.parse(serializedResult)
+}
+
+/**
+ * Run the code in a fresh vm context, returning its result serialized (undefined when it returns nothing)
+ */
+function runInContext(code: string, serializedInput: string, timeout: number, log: (level: SandboxLogLevel, message: string) => void): string | undefined {
+	const context = createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } })
+	context.__input = serializedInput
+	context.__bridge = (level: SandboxLogLevel, message: string) => log(level, String(message))
+	return new Script(createScriptSource(code), SCRIPT_OPTIONS).runInContext(context, { timeout })
+}
+
+/**
+ * Source of the script that runs the code in a context holding __input and __bridge
+ * Setup and user code run as one script so the timeout covers both. The setup takes the bridge off the global
+ * object and keeps it in a closure the user code (declared outside it) cannot see.
+ */
+function createScriptSource(code: string): string {
+	return `(function () {
+			const bridge = globalThis.__bridge
+			const input = globalThis.__input
+			delete globalThis.__bridge
+			delete globalThis.__input
+			const stringify = JSON.stringify
+			const format = (value) => {
+				if (typeof value === "string") return value
+				try { return stringify(value) } catch (error) { return String(value) }
+			}
+			const write = (level) => (...args) => bridge(level, args.map(format).join(" "))
+			globalThis.console = Object.freeze({ log: write("log"), info: write("log"), warn: write("warn"), error: write("error") })
+			const variables = JSON.parse(input)
+			return (run) => {
+				const result = run(variables.$json, variables.$binary, variables.$index, variables.$item)
+				return result === undefined ? undefined : stringify(result)
+			}
+		})()(function ($json, $binary, $index, $item) {\n${code}\n})`
+}
+
+/**
+ * Run the code in a worker thread with a heap limit; the worker is terminated when it runs too long or out of memory
+ */
+function runInWorker(code: string, serializedInput: string, options: SandboxOptions, log: (level: SandboxLogLevel, message: string) => void): Promise<string | undefined> {
+	// The worker sets up its context like runInContext; it cannot load this module, which may not be compiled JavaScript
+	const source = `
+		const { parentPort, workerData } = require("worker_threads")
+		const { createContext, Script } = require("vm")
+		try {
+			const context = createContext(Object.create(null), { codeGeneration: { strings: false, wasm: false } })
+			context.__input = workerData.input
+			context.__bridge = (level, message) => parentPort.postMessage({ type: "log", level, message: String(message) })
+			const result = new Script(workerData.source, workerData.scriptOptions).runInContext(context, { timeout: workerData.timeout })
+			parentPort.postMessage({ type: "result", result })
+		} catch (error) {
+			parentPort.postMessage({ type: "error", message: error && error.message ? error.message : String(error) })
+		}
+	`
+
+	return new Promise((resolve, reject) => {
+		const worker = new Worker(source, {
+			eval: true,
+			workerData: { source: createScriptSource(code), scriptOptions: SCRIPT_OPTIONS, input: serializedInput, timeout: options.timeout },
+			resourceLimits: { maxOldGenerationSizeMb: options.memoryLimit },
+		})
+		let settled = false
+		const settle = (outcome: () => void) => {
+			if (settled) {
+				return
+			}
+			settled = true
+			clearTimeout(timer)
+			worker.terminate().catch((error) => logger.warn("🧱 SANDBOX: Could not terminate worker:", error.message))
+			outcome()
+		}
+
+		const timer = setTimeout(() => settle(() => reject(new Error(`Script execution timed out after ${options.timeout}ms`))), options.timeout + WORKER_STARTUP_GRACE)
+		worker.on("message", (message: { type: string; level?: SandboxLogLevel; message?: string; result?: string }) => {
+			if (message.type === "log") {
+				log(message.level!, message.message!)
+			} else if (message.type === "result") {
+				settle(() => resolve(message.result))
+			} else {
+				settle(() => reject(new Error(message.message)))
+			}
+		})
+		worker.on("error", (error: Error & { code?: string }) => {
+			const outOfMemory = error.code === "ERR_WORKER_OUT_OF_MEMORY"
+			settle(() => reject(outOfMemory ? new Error(`Return code ran out of memory (limit ${options.memoryLimit} MB)`) : error))
+		})
+		worker.on("exit", (exitCode) => settle(() => reject(new Error(`Sandbox worker stopped unexpectedly (exit code ${exitCode})`))))
+	})
+}
@@ -1,6 +1,24 @@
 import { type INodeExecutionData, NodeConnectionType, type IExecuteFunctions, type INodeType, type INodeTypeDescription, NodeOperationError } from "n8n-workflow"
 import { getFunctionRegistry, isQueueModeEnabled } from "../FunctionRegistryFactory"
 import { functionRegistryLogger as logger } from "../Logger"
+import { BatchCallResult, FunctionDefinition, FunctionRegistry } from "../FunctionRegistry"
+import { FunctionErrorCodes, FunctionErrorInfo } from "../FunctionCallError"
+import { validateJsonSchema, formatJsonSchemaErrors } from "../JsonSchemaValidator"
+import { SerializedBinaryMap, parseBinaryPropertyList, serializeBinaryProperties } from "../BinaryTransfer"
+import { SandboxIsolation, SandboxLogLevel, runReturnCode } from "../ReturnCodeSandbox"
+
+interface CallContext {
+	callId: string
+	responseChannel: string
+	messageId: string
+	streamKey: string
+	groupName: string
+	functionName: string
+	// Seconds the caller wants the result kept (asynchronous calls)
+	resultTtl?: number
+	// Trace the call belongs to, if the caller sent one
+	traceId?: string
+}
 
 export class ReturnFromFunction implements INodeType {
 	description: INodeTypeDescription = {
@@ -17,6 +35,50 @@ export class ReturnFromFunction implements INodeType {
 		inputs: [NodeConnectionType.Main],
 		outputs: [NodeConnectionType.Main],
 		properties: [
+			{
+				displayName: "Mode",
+				name: "mode",
+				type: "options",
+				noDataExpression: true,
+				options: [
+					{
+						name: "Return Value",
+						value: "return",
+						description: "Answer the call with a value",
+					},
+					{
+						name: "Throw Error",
+						value: "throw",
+						description: "Fail the call with an error code the caller can branch on",
+					},
+				],
+				default: "return",
+			},
+			{
+				displayName: "Return Items",
+				name: "returnMode",
+				type: "options",
+				options: [
+					{
+						name: "Each Item",
+						value: "each",
+						description: "Return the value computed for the item of each call. A list returned by the Return Code reaches the caller as a list.",
+					},
+					{
+						name: "All Items as a List",
+						value: "all",
+						description:
+							"Return one list per call with the value computed for every item of that call. Use Response Mode 'Split Into Items' on Call Function to get one output item per element.",
+					},
+				],
+				default: "each",
+				description: "What to return when the function produces several items for one call",
+				displayOptions: {
+					show: {
+						mode: ["return"],
+					},
+				},
+			},
 			{
 				displayName: "Return Code",
 				name: "returnCode",
@@ -26,8 +88,135 @@ export class ReturnFromFunction implements INodeType {
 					rows: 15,
 				},
 				default: "// Return any value from this function\nreturn $json;",
-				description: "JavaScript code to determine the return value. Use 'return' statement to specify what to return.",
+				description:
+					"JavaScript code to determine the return value. Use 'return' statement to specify what to return. The code sees only the variables of the item, console and standard built-ins such as Date, Math and JSON.",
 				placeholder: "return { message: 'Hello', timestamp: Date.now() };",
+				displayOptions: {
+					show: {
+						mode: ["return"],
+					},
+				},
+			},
+			{
+				displayName: "Sandbox",
+				name: "sandbox",
+				type: "options",
+				options: [
+					{
+						name: "Isolated Context",
+						value: "context",
+						description: "Run the code in a separate context of the n8n process. Fast, but only the timeout is enforced.",
+					},
+					{
+						name: "Worker Thread (Strict)",
+						value: "worker",
+						description: "Run the code in a worker thread with its own memory limit. Adds a few milliseconds per item.",
+					},
+				],
+				default: "context",
+				description: "Where the Return Code runs. Either way it cannot reach the n8n process, and code that runs too long is stopped.",
+				displayOptions: {
+					show: {
+						mode: ["return"],
+					},
+				},
+			},
+			{
+				displayName: "Code Timeout (Ms)",
+				name: "codeTimeout",
+				type: "number",
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 1000,
+				description: "How long the Return Code may run for one item before it fails with a FUNCTION_ERROR",
+				displayOptions: {
+					show: {
+						mode: ["return"],
+					},
+				},
+			},
+			{
+				displayName: "Memory Limit (MB)",
+				name: "codeMemoryLimit",
+				type: "number",
+				typeOptions: {
+					minValue: 8,
+				},
+				default: 64,
+				description: "Heap size the worker thread may use before the Return Code fails with a FUNCTION_ERROR",
+				displayOptions: {
+					show: {
+						mode: ["return"],
+						sandbox: ["worker"],
+					},
+				},
+			},
+			{
+				displayName: "Return Binary Properties",
+				name: "returnBinaryProperties",
+				type: "string",
+				default: "",
+				placeholder: "data, thumbnail",
+				description:
+					"Comma-separated names of binary properties of the input item to return to the caller alongside the return value. Use * to return all of them. The caller receives them as binary properties of its output item.",
+				displayOptions: {
+					show: {
+						mode: ["return"],
+					},
+				},
+			},
+			{
+				displayName: "Error Code",
+				name: "errorCode",
+				type: "string",
+				required: true,
+				default: "",
+				placeholder: "ORDER_NOT_FOUND",
+				description: "Machine-readable code of the error. Callers find it under errorInfo.code, or error.code on the Error output of Call Function.",
+				displayOptions: {
+					show: {
+						mode: ["throw"],
+					},
+				},
+			},
+			{
+				displayName: "Error Message",
+				name: "errorMessage",
+				type: "string",
+				default: "",
+				placeholder: "Order 42 does not exist",
+				description: "Human-readable description of the error. Defaults to the error code.",
+				displayOptions: {
+					show: {
+						mode: ["throw"],
+					},
+				},
+			},
+			{
+				displayName: "Error Details",
+				name: "errorDetails",
+				type: "json",
+				default: "",
+				placeholder: '{ "orderId": 42 }',
+				description: "Optional object with more information about the error, sent to the caller as details",
+				displayOptions: {
+					show: {
+						mode: ["throw"],
+					},
+				},
+			},
+			{
+				displayName: "Retryable",
+				name: "retryable",
+				type: "boolean",
+				default: false,
+				description: "Whether calling again may succeed. Callers whose retry policy retries Function Error Codes retry retryable errors whatever their code.",
+				displayOptions: {
+					show: {
+						mode: ["throw"],
+					},
+				},
 			},
 		],
 	}
@@ -42,106 +231,52 @@ export class ReturnFromFunction implements INodeType {
 
 		const returnData: INodeExecutionData[] = []
 		const registry = await getFunctionRegistry()
-
-		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
-			logger.log(`🌊 ReturnFromFunction: Processing item ${itemIndex + 1}/${items.length}`)
-
-			const returnCode = this.getNodeParameter("returnCode", itemIndex) as string
-			const item = items[itemIndex]
-
-			logger.log("🌊 ReturnFromFunction: Return code =", returnCode)
-			logger.log("🌊 ReturnFromFunction: Processing item =", item)
-
-			// Get call context from the item's _functionCall field
-			const functionCallData = item.json._functionCall as
-				| {
-						callId: string
-						functionName: string
-						timestamp: number
-						responseChannel: string
-						messageId: string
-						streamKey: string
-						groupName: string
-				  }
-				| undefined
-
-			if (!functionCallData) {
-				throw new NodeOperationError(this.getNode(), "ReturnFromFunction must be used within a Function that was called via CallFunction")
-			}
-
-			logger.log("🌊 ReturnFromFunction: Function call data:", functionCallData)
-
-			// Extract call context
-			const callContext = {
-				callId: functionCallData.callId,
-				responseChannel: functionCallData.responseChannel,
-				messageId: functionCallData.messageId,
-				streamKey: functionCallData.streamKey,
-				groupName: functionCallData.groupName,
-				functionName: functionCallData.functionName,
+		const batches = new Map<string, { callContext: CallContext; results: BatchCallResult[] }>()
+		const batchFailures: string[] = []
+
+		// Function definitions are looked up once per execution, not for every returned item
+		const definitions = new Map<string, Promise<FunctionDefinition | null>>()
+		const workflowId = this.getWorkflow().id || "unknown"
+		const getDefinition = (functionName: string): Promise<FunctionDefinition | null> => {
+			if (!definitions.has(functionName)) {
+				definitions.set(functionName, registry.getFunctionDefinition(functionName, workflowId))
 			}
+			return definitions.get(functionName)!
+		}
 
-			// Execute the JavaScript code to get the return value
-			let parsedReturnValue: any
-			try {
-				// Create execution context with available variables
-				const context = {
-					$json: item.json,
-					$binary: item.binary,
-					$index: itemIndex,
-					$item: item,
-					console: {
-						log: (...args: any[]) => logger.log("🌊 ReturnFromFunction Code:", ...args),
-						error: (...args: any[]) => logger.error("🌊 ReturnFromFunction Code:", ...args),
-						warn: (...args: any[]) => logger.warn("🌊 ReturnFromFunction Code:", ...args),
-					},
-					Date,
-					Math,
-					JSON,
+		const mode = this.getNodeParameter("mode", 0, "return") as string
+		const returnMode = mode === "throw" ? "each" : (this.getNodeParameter("returnMode", 0, "each") as string)
+		const lists = new Map<string, { callContext: CallContext; batchIndex?: number; values: any[]; binary: SerializedBinaryMap; failure?: ReturnOutcome }>()
+
+		// Answer a call with an evaluated return: batch entries are collected and answered after the loop, single calls right away
+		const respond = async (callContext: CallContext, batchIndex: number | undefined, outcome: ReturnOutcome): Promise<void> => {
+			if (batchIndex !== undefined) {
+				const batch = batches.get(callContext.callId) || { callContext, results: [] }
+				batch.results.push(
+					outcome.success
+						? { index: batchIndex, success: true, data: outcome.value, binary: Object.keys(outcome.binary).length > 0 ? outcome.binary : undefined }
+						: { index: batchIndex, success: false, error: outcome.errorInfo.message, errorInfo: outcome.errorInfo }
+				)
+				batches.set(callContext.callId, batch)
+				if (!outcome.success && !outcome.thrown) {
+					batchFailures.push(`item ${batchIndex}: ${outcome.message}`)
 				}
-
-				// Wrap the code in a function to capture the return value
-				const wrappedCode = `
-					(function() {
-						// Set up context variables
-						${Object.keys(context)
-							.map((key) => `var ${key} = arguments[0]["${key}"];`)
-							.join("\n\t\t\t\t\t\t")}
-						
-						// Execute user code
-						${returnCode}
-					})
-				`
-
-				parsedReturnValue = eval(wrappedCode)(context)
-				logger.log("🌊 ReturnFromFunction: Code execution result =", parsedReturnValue)
-			} catch (error) {
-				logger.error("🌊 ReturnFromFunction: Code execution error:", error)
-
-				// Send error response
-				await registry.publishResponse(callContext.responseChannel, {
-					success: false,
-					error: error.message,
-					callId: callContext.callId,
-					timestamp: Date.now(),
-				})
-
-				// Acknowledge the message even on error
-				await registry.acknowledgeCall(callContext.streamKey, callContext.groupName, callContext.messageId)
-
-				// Call context is embedded in the item, no need to clear static data
-
-				throw new NodeOperationError(this.getNode(), `Return code execution failed: ${error.message}`)
+				return
 			}
 
-			// Clean up the return value by removing internal fields
-			if (parsedReturnValue && typeof parsedReturnValue === "object") {
-				const cleanedReturnValue = { ...parsedReturnValue }
-				delete cleanedReturnValue._functionCall
-				parsedReturnValue = cleanedReturnValue
+			await recordReturn(registry, callContext)
+			if (!outcome.success) {
+				// Send error response (acknowledges the message even on error)
+				await sendErrorResponse(registry, callContext, outcome.errorInfo)
+				if (outcome.thrown) {
+					logger.log("🌊 ReturnFromFunction: ✅ Error thrown to the caller:", outcome.errorInfo.code)
+					return
+				}
+				throw new NodeOperationError(this.getNode(), outcome.message)
 			}
 
-			logger.log("🌊 ReturnFromFunction: Final return value (cleaned) =", parsedReturnValue)
+			const parsedReturnValue = outcome.value
+			const returnBinary = outcome.binary
 
 			// Check if queue mode is enabled to determine how to return the value
 			if (isQueueModeEnabled()) {
@@ -155,12 +290,17 @@ export class ReturnFromFunction implements INodeType {
 					await registry.markResponseSent(callContext.callId)
 
 					// Publish successful response
-					await registry.publishResponse(callContext.responseChannel, {
-						success: true,
-						data: parsedReturnValue,
-						callId: callContext.callId,
-						timestamp: Date.now(),
-					})
+					await registry.publishResponse(
+						callContext.responseChannel,
+						{
+							success: true,
+							data: parsedReturnValue,
+							binary: Object.keys(returnBinary).length > 0 ? returnBinary : undefined,
+							callId: callContext.callId,
+							timestamp: Date.now(),
+						},
+						callContext.resultTtl
+					)
 
 					logger.log("🌊 ReturnFromFunction: ✅ Response published successfully!")
 
@@ -179,7 +319,7 @@ export class ReturnFromFunction implements INodeType {
 				logger.log("🌊 ReturnFromFunction: Queue mode disabled, using direct return value resolution")
 				try {
 					// Resolve the return value directly for in-memory mode
-					await registry.resolveReturn(callContext.callId, parsedReturnValue)
+					await registry.resolveReturn(callContext.callId, parsedReturnValue, returnBinary)
 					logger.log("🌊 ReturnFromFunction: ✅ Return value resolved directly!")
 
 					// Pop the current function execution from the stack
@@ -191,23 +331,252 @@ export class ReturnFromFunction implements INodeType {
 			}
 
 			logger.log("🌊 ReturnFromFunction: ✅ Return value handled successfully")
+		}
+
+		for (let itemIndex = 0; itemIndex < items.length; itemIndex++) {
+			logger.log(`🌊 ReturnFromFunction: Processing item ${itemIndex + 1}/${items.length}`)
+
+			const item = items[itemIndex]
+
+			logger.log("🌊 ReturnFromFunction: Processing item =", item)
+
+			// Get call context from the item's _functionCall field
+			const functionCallData = item.json._functionCall as
+				| {
+						callId: string
+						functionName: string
+						timestamp: number
+						responseChannel: string
+						messageId: string
+						streamKey: string
+						groupName: string
+						// Set for the items of a batch call
+						batchIndex?: number
+						batchSize?: number
+						resultTtl?: number
+						traceId?: string
+				  }
+				| undefined
+
+			if (!functionCallData) {
+				throw new NodeOperationError(this.getNode(), "ReturnFromFunction must be used within a Function that was called via CallFunction")
+			}
+
+			logger.log("🌊 ReturnFromFunction: Function call data:", functionCallData)
+
+			// Extract call context
+			const callContext: CallContext = {
+				callId: functionCallData.callId,
+				responseChannel: functionCallData.responseChannel,
+				messageId: functionCallData.messageId,
+				streamKey: functionCallData.streamKey,
+				groupName: functionCallData.groupName,
+				functionName: functionCallData.functionName,
+				resultTtl: functionCallData.resultTtl,
+				traceId: functionCallData.traceId,
+			}
+
+			const outcome = mode === "throw" ? evaluateThrow(this, itemIndex) : await evaluateReturn(this, getDefinition, item, itemIndex, callContext.functionName)
 
 			// Clean up the result item by removing internal fields
 			const cleanedJson = { ...item.json }
 			delete cleanedJson._functionCall
-
 			const resultItem: INodeExecutionData = {
 				json: cleanedJson,
 				index: itemIndex,
 				binary: item.binary,
 			}
 
+			// All Items: every item of a call becomes one element of the returned list, sent once the loop is done
+			if (returnMode === "all") {
+				const listKey = `${callContext.callId}:${functionCallData.batchIndex ?? ""}`
+				const list = lists.get(listKey) || { callContext, batchIndex: functionCallData.batchIndex, values: [], binary: {} }
+				if (outcome.success) {
+					list.values.push(outcome.value)
+					Object.assign(list.binary, outcome.binary)
+				} else if (!list.failure) {
+					list.failure = outcome
+				}
+				lists.set(listKey, list)
+				returnData.push(resultItem)
+				continue
+			}
+
+			await respond(callContext, functionCallData.batchIndex, outcome)
 			returnData.push(resultItem)
 		}
 
+		for (const list of lists.values()) {
+			await respond(list.callContext, list.batchIndex, list.failure || { success: true, value: list.values, binary: list.binary })
+		}
+
+		for (const [callId, batch] of batches) {
+			await recordReturn(registry, batch.callContext)
+			try {
+				await registry.publishBatchResults(callId, batch.results)
+				if (isQueueModeEnabled()) {
+					await registry.acknowledgeCall(batch.callContext.streamKey, batch.callContext.groupName, batch.callContext.messageId)
+				}
+				logger.log("🌊 ReturnFromFunction: ✅ Batch results sent for", batch.results.length, "items of call", callId)
+			} catch (error) {
+				logger.error("🌊 ReturnFromFunction: ❌ Error publishing batch results:", error)
+				throw new NodeOperationError(this.getNode(), `Failed to publish batch results: ${error.message}`)
+			}
+		}
+
+		// Failed batch items were reported to the caller; still fail this execution so the error is visible here
+		if (batchFailures.length > 0) {
+			throw new NodeOperationError(this.getNode(), `Return failed for ${batchFailures.length} batch item(s): ${batchFailures.join("; ")}`)
+		}
+
 		logger.log("🌊 ReturnFromFunction: ===== EXECUTION COMPLETE =====")
 		logger.log("🌊 ReturnFromFunction: Final return data:", returnData)
 		logger.log("🌊 ReturnFromFunction: Node execution completed at:", new Date().toISOString())
 		return [returnData]
 	}
 }
+
+/**
+ * Record on the call's span when the function returned; tracing problems never fail the return
+ */
+async function recordReturn(registry: FunctionRegistry, callContext: CallContext): Promise<void> {
+	if (!callContext.traceId) {
+		return
+	}
+	await registry.recordSpan({ traceId: callContext.traceId, callId: callContext.callId, returnedAt: Date.now() }).catch((error) => {
+		logger.warn("🌊 ReturnFromFunction: ⚠️ Could not record the return:", error.message)
+	})
+}
+
+/**
+ * Send a structured error back to the caller in either registry mode
+ */
+async function sendErrorResponse(registry: FunctionRegistry, callContext: CallContext, errorInfo: FunctionErrorInfo): Promise<void> {
+	if (isQueueModeEnabled()) {
+		await registry.publishResponse(
+			callContext.responseChannel,
+			{
+				success: false,
+				error: errorInfo.message,
+				errorInfo,
+				callId: callContext.callId,
+				timestamp: Date.now(),
+			},
+			callContext.resultTtl
+		)
+
+		// Acknowledge the message even on error
+		await registry.acknowledgeCall(callContext.streamKey, callContext.groupName, callContext.messageId)
+	} else {
+		await registry.rejectReturn(callContext.callId, errorInfo)
+	}
+}
+
+// thrown marks errors sent on purpose with Throw Error: they fail the call but not this execution
+type ReturnOutcome = { success: true; value: any; binary: SerializedBinaryMap } | { success: false; errorInfo: FunctionErrorInfo; message: string; thrown?: boolean }
+
+/**
+ * Build the error Throw Error sends for one item
+ * A misconfigured error (no code, details that are not an object) is reported to the caller as FUNCTION_ERROR instead
+ */
+function evaluateThrow(context: IExecuteFunctions, itemIndex: number): ReturnOutcome {
+	const code = ((context.getNodeParameter("errorCode", itemIndex, "") as string) || "").trim()
+	if (code === "") {
+		const message = "Throw Error needs an Error Code"
+		return { success: false, errorInfo: { code: FunctionErrorCodes.FUNCTION_ERROR, message }, message }
+	}
+
+	let details = context.getNodeParameter("errorDetails", itemIndex, "") as any
+	if (typeof details === "string") {
+		try {
+			details = details.trim() === "" ? undefined : JSON.parse(details)
+		} catch (error) {
+			const message = `Error Details of error ${code} are not valid: ${error.message}`
+			return { success: false, errorInfo: { code: FunctionErrorCodes.FUNCTION_ERROR, message }, message }
+		}
+	}
+	if (details !== undefined && (details === null || typeof details !== "object" || Array.isArray(details))) {
+		const message = `Error Details of error ${code} must be an object`
+		return { success: false, errorInfo: { code: FunctionErrorCodes.FUNCTION_ERROR, message }, message }
+	}
+
+	const message = ((context.getNodeParameter("errorMessage", itemIndex, "") as string) || "").trim() || code
+	const retryable = context.getNodeParameter("retryable", itemIndex, false) as boolean
+	const errorInfo: FunctionErrorInfo = { code, message, ...(details !== undefined ? { details } : {}), retryable }
+	logger.log("🌊 ReturnFromFunction: Throwing error =", errorInfo)
+	return { success: false, errorInfo, message, thrown: true }
+}
+
+/**
+ * Run the Return Code for one item, collect the binary properties to return and check the Return Schema
+ * Failures are returned (not thrown) with the error for the caller and the message for this node
+ */
+async function evaluateReturn(
+	context: IExecuteFunctions,
+	getDefinition: (functionName: string) => Promise<FunctionDefinition | null>,
+	item: INodeExecutionData,
+	itemIndex: number,
+	functionName: string
+): Promise<ReturnOutcome> {
+	const returnCode = context.getNodeParameter("returnCode", itemIndex) as string
+	logger.log("🌊 ReturnFromFunction: Return code =", returnCode)
+
+	// Execute the JavaScript code in a sandbox to get the return value
+	let parsedReturnValue: any
+	try {
+		const sandbox = {
+			isolation: context.getNodeParameter("sandbox", itemIndex, "context") as SandboxIsolation,
+			timeout: context.getNodeParameter("codeTimeout", itemIndex, 1000) as number,
+			memoryLimit: context.getNodeParameter("codeMemoryLimit", itemIndex, 64) as number,
+		}
+		const log = (level: SandboxLogLevel, message: string) => logger[level]("🌊 ReturnFromFunction Code:", message)
+		parsedReturnValue = await runReturnCode(returnCode, { $json: item.json, $binary: item.binary, $index: itemIndex, $item: item }, sandbox, log)
+		logger.log("🌊 ReturnFromFunction: Code execution result =", parsedReturnValue)
+	} catch (error) {
+		logger.error("🌊 ReturnFromFunction: Code execution error:", error)
+		return {
+			success: false,
+			errorInfo: { code: FunctionErrorCodes.FUNCTION_ERROR, message: error.message },
+			message: `Return code execution failed: ${error.message}`,
+		}
+	}
+
+	// Clean up the return value by removing internal fields; lists are returned as they are so callers can split them
+	if (parsedReturnValue && typeof parsedReturnValue === "object" && !Array.isArray(parsedReturnValue)) {
+		const cleanedReturnValue = { ...parsedReturnValue }
+		delete cleanedReturnValue._functionCall
+		parsedReturnValue = cleanedReturnValue
+	}
+
+	logger.log("🌊 ReturnFromFunction: Final return value (cleaned) =", parsedReturnValue)
+
+	// Serialize the requested binary properties so they survive the trip to another process
+	let returnBinary: SerializedBinaryMap = {}
+	try {
+		const returnBinaryProperties = context.getNodeParameter("returnBinaryProperties", itemIndex, "") as string
+		const binaryPropertyNames = parseBinaryPropertyList(returnBinaryProperties, Object.keys(item.binary || {}))
+		returnBinary = await serializeBinaryProperties(context, itemIndex, binaryPropertyNames)
+	} catch (error) {
+		logger.error("🌊 ReturnFromFunction: ❌ Error reading binary properties to return:", error)
+		const message = `Failed to read binary data to return: ${error.message}`
+		return { success: false, errorInfo: { code: FunctionErrorCodes.FUNCTION_ERROR, message }, message }
+	}
+
+	// Validate against the function's declared Return Schema, if any
+	const functionDefinition = await getDefinition(functionName)
+	if (functionDefinition && functionDefinition.returnSchema) {
+		const schemaErrors = validateJsonSchema(functionDefinition.returnSchema, parsedReturnValue === undefined ? null : parsedReturnValue, "return")
+		if (schemaErrors.length > 0) {
+			const message = `Return value of function '${functionName}' does not match its Return Schema: ${formatJsonSchemaErrors(schemaErrors)}`
+			logger.error("🌊 ReturnFromFunction: ❌", message)
+			return {
+				success: false,
+				errorInfo: { code: FunctionErrorCodes.RETURN_VALIDATION_FAILED, message, details: { functionName, errors: schemaErrors } },
+				message,
+			}
+		}
+		logger.log("🌊 ReturnFromFunction: ✅ Return value matches Return Schema")
+	}
+
+	return { success: true, value: parsedReturnValue, binary: returnBinary }
+}
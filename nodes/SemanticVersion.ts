@@ -0,0 +1,284 @@
+/**
+ * Minimal semantic versioning support for function versions
+ *
+ * Versions follow MAJOR.MINOR.PATCH with an optional -prerelease suffix (build metadata is ignored).
+ * Ranges support the npm-style forms callers use in practice:
+ * - exact: 1.2.3, =1.2.3
+ * - caret: ^1.2.3, ^0.2, ^1
+ * - tilde: ~1.2.3, ~1.2
+ * - wildcards: 1.x, 1.2.*, 1, *
+ * - comparators: >=1.2.0 <2.0.0 (space means AND)
+ * - alternatives: ^1.0.0 || ^2.0.0
+ */
+
+export interface SemanticVersion {
+	major: number
+	minor: number
+	patch: number
+	prerelease: string[]
+}
+
+interface PartialVersion {
+	major?: number
+	minor?: number
+	patch?: number
+	prerelease: string[]
+}
+
+interface Comparator {
+	operator: ">=" | ">" | "<=" | "<" | "="
+	version: SemanticVersion
+}
+
+const VERSION_PATTERN = /^v?(\d+)\.(\d+)\.(\d+)(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/
+const PARTIAL_PATTERN = /^v?(\d+|[xX*])(?:\.(\d+|[xX*]))?(?:\.(\d+|[xX*]))?(?:-([0-9A-Za-z.-]+))?(?:\+[0-9A-Za-z.-]+)?$/
+
+/**
+ * Parse a full version string, returning null when it is not a valid semantic version
+ */
+export function parseSemanticVersion(version: string): SemanticVersion | null {
+	const match = VERSION_PATTERN.exec(version.trim())
+	if (!match) {
+		return null
+	}
+	return {
+		major: Number(match[1]),
+		minor: Number(match[2]),
+		patch: Number(match[3]),
+		prerelease: match[4] ? match[4].split(".") : [],
+	}
+}
+
+/**
+ * Check whether a string is a valid semantic version
+ */
+export function isValidSemanticVersion(version: string): boolean {
+	return parseSemanticVersion(version) !== null
+}
+
+/**
+ * Compare two versions: negative when a < b, positive when a > b, 0 when equal
+ * Invalid versions sort before valid ones
+ */
+export function compareSemanticVersions(a: string, b: string): number {
+	const versionA = parseSemanticVersion(a)
+	const versionB = parseSemanticVersion(b)
+	if (!versionA || !versionB) {
+		return (versionA ? 1 : 0) - (versionB ? 1 : 0)
+	}
+	return compareParsed(versionA, versionB)
+}
+
+/**
+ * Check whether a string is a valid version range
+ */
+export function isValidVersionRange(range: string): boolean {
+	try {
+		parseRange(range)
+		return true
+	} catch {
+		return false
+	}
+}
+
+/**
+ * Check whether a version satisfies a range
+ * Throws an Error when the range is malformed
+ */
+export function satisfiesVersionRange(version: string, range: string): boolean {
+	const parsedVersion = parseSemanticVersion(version)
+	if (!parsedVersion) {
+		return false
+	}
+
+	return parseRange(range).some((comparators) => {
+		if (!comparators.every((comparator) => testComparator(parsedVersion, comparator))) {
+			return false
+		}
+		// Prerelease versions only match ranges that opt into prereleases of the same release
+		if (parsedVersion.prerelease.length > 0) {
+			return comparators.some(
+				(comparator) =>
+					comparator.version.prerelease.length > 0 &&
+					comparator.version.major === parsedVersion.major &&
+					comparator.version.minor === parsedVersion.minor &&
+					comparator.version.patch === parsedVersion.patch
+			)
+		}
+		return true
+	})
+}
+
+/**
+ * Pick the highest version that satisfies a range (or the highest stable version when no range is given)
+ * Returns null when nothing matches
+ */
+export function resolveVersionRange(versions: string[], range?: string): string | null {
+	const effectiveRange = range && range.trim() !== "" ? range : "*"
+	const candidates = versions.filter((version) => satisfiesVersionRange(version, effectiveRange))
+	if (candidates.length === 0) {
+		return null
+	}
+	return candidates.sort(compareSemanticVersions)[candidates.length - 1]
+}
+
+function compareParsed(a: SemanticVersion, b: SemanticVersion): number {
+	for (const field of ["major", "minor", "patch"] as const) {
+		if (a[field] !== b[field]) {
+			return a[field] - b[field]
+		}
+	}
+
+	// A release sorts after its prereleases
+	if (a.prerelease.length === 0 || b.prerelease.length === 0) {
+		return (a.prerelease.length === 0 ? 1 : 0) - (b.prerelease.length === 0 ? 1 : 0)
+	}
+
+	for (let i = 0; i < Math.max(a.prerelease.length, b.prerelease.length); i++) {
+		const identifierA = a.prerelease[i]
+		const identifierB = b.prerelease[i]
+		if (identifierA === undefined) return -1
+		if (identifierB === undefined) return 1
+		if (identifierA === identifierB) continue
+
+		const numericA = /^\d+$/.test(identifierA)
+		const numericB = /^\d+$/.test(identifierB)
+		if (numericA && numericB) return Number(identifierA) - Number(identifierB)
+		if (numericA) return -1
+		if (numericB) return 1
+		return identifierA < identifierB ? -1 : 1
+	}
+	return 0
+}
+
+function testComparator(version: SemanticVersion, comparator: Comparator): boolean {
+	const comparison = compareParsed(version, comparator.version)
+	switch (comparator.operator) {
+		case ">=":
+			return comparison >= 0
+		case ">":
+			return comparison > 0
+		case "<=":
+			return comparison <= 0
+		case "<":
+			return comparison < 0
+		case "=":
+			return comparison === 0
+	}
+}
+
+/**
+ * Parse a range into alternatives (||) of comparator sets (space-separated, all must match)
+ */
+function parseRange(range: string): Comparator[][] {
+	return range.split("||").map((alternative) => {
+		// Allow "> = 1.2" style spacing between an operator and its version
+		const parts = alternative
+			.trim()
+			.replace(/(>=|<=|>|<|=|\^|~)\s+/g, "$1")
+			.split(/\s+/)
+			.filter((part) => part !== "")
+
+		if (parts.length === 0) {
+			return []
+		}
+		return parts.flatMap((part) => parseComparator(part, range))
+	})
+}
+
+function parseComparator(part: string, range: string): Comparator[] {
+	const match = /^(>=|<=|>|<|=|\^|~)?(.*)$/.exec(part)!
+	const operator = match[1] || ""
+	const partial = parsePartial(match[2], range)
+
+	switch (operator) {
+		case "^":
+			return caretRange(partial)
+		case "~":
+			return tildeRange(partial)
+		case ">=":
+			return [{ operator: ">=", version: lowerBound(partial) }]
+		case ">":
+			// ">1.2" means "greater than any 1.2.x"
+			return partial.patch !== undefined ? [{ operator: ">", version: lowerBound(partial) }] : [{ operator: ">=", version: nextBound(partial) }]
+		case "<":
+			return [{ operator: "<", version: lowerBound(partial) }]
+		case "<=":
+			// "<=1.2" means "up to and including any 1.2.x"
+			return partial.patch !== undefined ? [{ operator: "<=", version: lowerBound(partial) }] : [{ operator: "<", version: nextBound(partial) }]
+		default:
+			return xRange(partial)
+	}
+}
+
+function parsePartial(text: string, range: string): PartialVersion {
+	const match = PARTIAL_PATTERN.exec(text)
+	if (!match) {
+		throw new Error(`Invalid version range: ${range}`)
+	}
+
+	const toNumber = (value: string | undefined) => (value === undefined || /^[xX*]$/.test(value) ? undefined : Number(value))
+	const major = toNumber(match[1])
+	const minor = major === undefined ? undefined : toNumber(match[2])
+	const patch = minor === undefined ? undefined : toNumber(match[3])
+
+	return { major, minor, patch, prerelease: match[4] && patch !== undefined ? match[4].split(".") : [] }
+}
+
+function lowerBound(partial: PartialVersion): SemanticVersion {
+	return { major: partial.major || 0, minor: partial.minor || 0, patch: partial.patch || 0, prerelease: partial.prerelease }
+}
+
+/**
+ * The first version past a partial version, e.g. 1.2 → 1.3.0, 1 → 2.0.0
+ */
+function nextBound(partial: PartialVersion): SemanticVersion {
+	if (partial.minor === undefined) {
+		return { major: (partial.major || 0) + 1, minor: 0, patch: 0, prerelease: [] }
+	}
+	return { major: partial.major!, minor: partial.minor + 1, patch: 0, prerelease: [] }
+}
+
+function xRange(partial: PartialVersion): Comparator[] {
+	if (partial.major === undefined) {
+		return [{ operator: ">=", version: lowerBound(partial) }]
+	}
+	if (partial.patch !== undefined) {
+		return [{ operator: "=", version: lowerBound(partial) }]
+	}
+	return [
+		{ operator: ">=", version: lowerBound(partial) },
+		{ operator: "<", version: nextBound(partial) },
+	]
+}
+
+function tildeRange(partial: PartialVersion): Comparator[] {
+	if (partial.major === undefined) {
+		return xRange(partial)
+	}
+	return [
+		{ operator: ">=", version: lowerBound(partial) },
+		{ operator: "<", version: nextBound({ major: partial.major, minor: partial.minor, prerelease: [] }) },
+	]
+}
+
+function caretRange(partial: PartialVersion): Comparator[] {
+	if (partial.major === undefined) {
+		return xRange(partial)
+	}
+
+	// The upper bound is the next change of the left-most non-zero component
+	let upper: SemanticVersion
+	if (partial.major > 0 || partial.minor === undefined) {
+		upper = { major: partial.major + 1, minor: 0, patch: 0, prerelease: [] }
+	} else if (partial.minor > 0 || partial.patch === undefined) {
+		upper = { major: 0, minor: partial.minor + 1, patch: 0, prerelease: [] }
+	} else {
+		upper = { major: 0, minor: 0, patch: partial.patch + 1, prerelease: [] }
+	}
+
+	return [
+		{ operator: ">=", version: lowerBound(partial) },
+		{ operator: "<", version: upper },
+	]
+}
@@ -0,0 +1,32 @@
+import { NodeOperationError } from "n8n-workflow"
+import { describeCallFailure } from "../nodes/CallFailure"
+import { FunctionCallError, FunctionErrorCodes } from "../nodes/FunctionCallError"
+
+const node = { id: "call-node", name: "Call Function", type: "callFunction", typeVersion: 1, position: [0, 0] as [number, number], parameters: {} }
+
+describe("describeCallFailure", () => {
+	it("keeps the code of a typed error whatever its message says", () => {
+		const failure = describeCallFailure(new FunctionCallError("OUT_OF_STOCK", "Item not available", { sku: "A-1" }, false), "reserveItem", "call-1", 1)
+		expect(failure).toEqual({
+			code: "OUT_OF_STOCK",
+			message: "Item not available",
+			functionName: "reserveItem",
+			callId: "call-1",
+			attempts: 1,
+			origin: "function",
+			details: { sku: "A-1" },
+			retryable: false,
+		})
+	})
+
+	it("keeps the code of a typed error wrapped in a node error", () => {
+		const error = new NodeOperationError(node, "Function call failed: Item not available")
+		error.context.errorInfo = { code: "OUT_OF_STOCK", message: "Item not available" }
+		expect(describeCallFailure(error, "reserveItem", "call-2", 1)).toMatchObject({ code: "OUT_OF_STOCK", origin: "function" })
+	})
+
+	it("reports calls no worker took as unavailable", () => {
+		const error = new NodeOperationError(node, "Function 'reserveItem' not available. This usually means the Function node is not running.")
+		expect(describeCallFailure(error, "reserveItem", undefined, 2)).toMatchObject({ code: FunctionErrorCodes.FUNCTION_UNAVAILABLE, origin: "transport", attempts: 2 })
+	})
+})
@@ -0,0 +1,131 @@
+import type { IExecuteFunctions, INodeExecutionData } from "n8n-workflow"
+import { CallFunction } from "../nodes/CallFunction/CallFunction.node"
+import { getFunctionRegistry } from "../nodes/FunctionRegistryFactory"
+import { FunctionDefinition } from "../nodes/FunctionRegistry"
+import { bindParameters } from "../nodes/ParameterBinding"
+
+const workflowId = "call-workflow"
+
+/**
+ * Minimal execution context for Call Function in in-memory mode
+ */
+function createContext(items: INodeExecutionData[], parameters: Record<string, any>): IExecuteFunctions {
+	const node = { id: "call-node", name: "Call Function", type: "callFunction", typeVersion: 1.1, position: [0, 0], parameters: {} }
+	const values: Record<string, any> = { workflowId, parameterMode: "individual", responseMode: "replace", ...parameters }
+	return {
+		getInputData: () => items,
+		getNodeParameter: (name: string, _itemIndex: number, fallback?: any) => (name in values ? values[name] : fallback),
+		getNode: () => node,
+		getWorkflow: () => ({ id: workflowId, active: false }),
+		getExecutionId: () => "execution-1",
+		getExecutionCancelSignal: () => undefined,
+		continueOnFail: () => false,
+		addExecutionHints: () => {},
+		helpers: {},
+	} as unknown as IExecuteFunctions
+}
+
+/**
+ * Register a function that answers every call with the value of respond and return the mock to inspect its calls
+ */
+async function registerFunction(definition: Partial<FunctionDefinition> & { name: string }, respond: (parameters: Record<string, any>) => any): Promise<jest.Mock> {
+	const execute = jest.fn(async (parameters: Record<string, any>) => [{ json: { _functionReturn: respond(parameters) } }])
+	const registry = await getFunctionRegistry()
+	await registry.registerFunction({ scope: workflowId, code: "", parameters: [], workflowId, nodeId: `node-${definition.name}`, ...definition, executionFunction: execute })
+	return execute
+}
+
+function parameterValues(values: Record<string, string>): Record<string, any> {
+	return { parameters: { parameter: Object.entries(values).map(([name, value]) => ({ name, value })) } }
+}
+
+describe("CallFunction result cache", () => {
+	const currency = { name: "currency", type: "string", required: true }
+	let rate = 1
+
+	it("answers repeated calls from the cache", async () => {
+		const execute = await registerFunction({ name: "lookupRate", parameters: [currency], cache: { ttl: 60 } }, () => ({ rate: rate++ }))
+		const items = [{ json: {} }, { json: {} }]
+
+		const [output] = await new CallFunction().execute.call(createContext(items, { functionName: "lookupRate", ...parameterValues({ currency: "EUR" }) }))
+
+		expect(output.map((item) => item.json)).toEqual([{ rate: 1 }, { rate: 1 }])
+		expect(execute).toHaveBeenCalledTimes(1)
+	})
+
+	it("invalidates the cache once per execution so later items reuse the new result", async () => {
+		const registry = await getFunctionRegistry()
+		const invalidate = jest.spyOn(registry, "invalidateFunctionCache")
+		const execute = await registerFunction({ name: "lookupRate", parameters: [currency], cache: { ttl: 60 } }, () => ({ rate: rate++ }))
+		const items = [{ json: {} }, { json: {} }, { json: {} }]
+
+		const [output] = await new CallFunction().execute.call(createContext(items, { functionName: "lookupRate", cacheMode: "invalidate", ...parameterValues({ currency: "EUR" }) }))
+
+		expect(output.map((item) => item.json)).toEqual([{ rate: 2 }, { rate: 2 }, { rate: 2 }])
+		expect(execute).toHaveBeenCalledTimes(1)
+		expect(invalidate).toHaveBeenCalledTimes(1)
+		invalidate.mockRestore()
+	})
+
+	it("calls the function again for every item when refreshing", async () => {
+		const execute = await registerFunction({ name: "lookupRate", parameters: [currency], cache: { ttl: 60 } }, () => ({ rate: rate++ }))
+		const items = [{ json: {} }, { json: {} }]
+
+		const [output] = await new CallFunction().execute.call(createContext(items, { functionName: "lookupRate", cacheMode: "refresh", ...parameterValues({ currency: "EUR" }) }))
+
+		expect(output.map((item) => item.json)).toEqual([{ rate: 3 }, { rate: 4 }])
+		expect(execute).toHaveBeenCalledTimes(2)
+	})
+})
+
+describe("CallFunction timeout", () => {
+	async function callTimeout(parameters: Record<string, any>): Promise<{ timeout?: number; deadline?: number }> {
+		const execute = await registerFunction({ name: "waitForApproval" }, () => ({ approved: true }))
+		await new CallFunction().execute.call(createContext([{ json: {} }], { functionName: "waitForApproval", ...parameters }))
+		return execute.mock.calls[0][2]
+	}
+
+	it("waits 300 seconds unless the node sets a timeout", async () => {
+		for (const parameters of [{}, { timeout: 0 }]) {
+			const options = await callTimeout(parameters)
+			expect(options.timeout).toBeGreaterThan(299000)
+			expect(options.timeout).toBeLessThanOrEqual(300000)
+			expect(options.deadline).toBeDefined()
+		}
+	})
+
+	it("uses the node's timeout or waits without a limit for -1", async () => {
+		const limited = await callTimeout({ timeout: 5 })
+		expect(limited.timeout).toBeGreaterThan(4000)
+		expect(limited.timeout).toBeLessThanOrEqual(5000)
+
+		const unlimited = await callTimeout({ timeout: -1 })
+		expect(unlimited.timeout).toBe(0)
+		expect(unlimited.deadline).toBeUndefined()
+	})
+})
+
+describe("CallFunction parameter values", () => {
+	const greeting = { name: "greeting", type: "string", required: false, defaultValue: "Hello" }
+	const count = { name: "count", type: "number", required: false, defaultValue: "1" }
+
+	async function callParameters(parameter: Array<Record<string, any>>): Promise<Record<string, any>> {
+		const execute = await registerFunction({ name: "greet", parameters: [greeting, count] }, () => ({ sent: true }))
+		await new CallFunction().execute.call(createContext([{ json: {} }], { functionName: "greet", parameters: { parameter } }))
+		return execute.mock.calls[0][0]
+	}
+
+	it("leaves out empty values so the declared defaults apply", async () => {
+		const sent = await callParameters([
+			{ name: "greeting", value: "" },
+			{ name: "count", value: "" },
+		])
+		expect(sent).toEqual({})
+		expect(bindParameters("greet", [greeting, count], undefined, sent)).toEqual({ greeting: "Hello", count: 1 })
+	})
+
+	it("sends an empty string when the parameter opts in", async () => {
+		expect(await callParameters([{ name: "greeting", value: "", sendEmptyValue: true }])).toEqual({ greeting: "" })
+		expect(await callParameters([{ name: "count", value: "", sendEmptyValue: true }])).toEqual({})
+	})
+})
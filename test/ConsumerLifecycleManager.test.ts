@@ -0,0 +1,55 @@
+import { ConsumerLifecycleManager } from "../nodes/ConsumerLifecycleManager"
+import { getFunctionRegistry } from "../nodes/FunctionRegistryFactory"
+import { FunctionErrorCodes } from "../nodes/FunctionCallError"
+
+const config = { functionName: "slowReport", scope: "deadline-workflow", streamKey: "stream", groupName: "group", processId: "process", workerId: "worker" }
+
+/**
+ * Consumer with a stand-in stream client, so messages can be processed without Redis
+ */
+function createConsumer(messageHandler: jest.Mock): { consumer: ConsumerLifecycleManager; xAck: jest.Mock } {
+	const consumer = new ConsumerLifecycleManager(config, { host: "localhost", port: 6379, database: 0, user: "", password: "", ssl: false }, messageHandler)
+	const xAck = jest.fn(async () => 1)
+	consumer["client"] = { xAck } as any
+	return { consumer, xAck }
+}
+
+describe("ConsumerLifecycleManager deadlines", () => {
+	afterEach(() => {
+		jest.restoreAllMocks()
+	})
+
+	it("skips calls past their deadline and publishes DEADLINE_EXCEEDED", async () => {
+		const registry = await getFunctionRegistry()
+		const publishResponse = jest.spyOn(registry, "publishResponse").mockResolvedValue()
+		const messageHandler = jest.fn()
+		const { consumer, xAck } = createConsumer(messageHandler)
+
+		const message = { callId: "late-1", functionName: "slowReport", responseChannel: "function:response:late-1", deadline: String(Date.now() - 1000), resultTtl: "60" }
+		await consumer["processMessage"]("1-0", message)
+
+		expect(messageHandler).not.toHaveBeenCalled()
+		expect(publishResponse).toHaveBeenCalledWith(
+			"function:response:late-1",
+			expect.objectContaining({ success: false, callId: "late-1", errorInfo: expect.objectContaining({ code: FunctionErrorCodes.DEADLINE_EXCEEDED }) }),
+			60
+		)
+		expect(xAck).toHaveBeenCalledWith("stream", "group", "1-0")
+	})
+
+	it("runs calls whose deadline has not passed", async () => {
+		const registry = await getFunctionRegistry()
+		const publishResponse = jest.spyOn(registry, "publishResponse").mockResolvedValue()
+		const messageHandler = jest.fn(async () => undefined)
+		const { consumer, xAck } = createConsumer(messageHandler)
+		// The processing timeout would keep a timer running after the test
+		jest.spyOn(consumer as any, "createTimeoutPromise").mockReturnValue(new Promise(() => {}))
+
+		const message = { callId: "on-time-1", functionName: "slowReport", responseChannel: "function:response:on-time-1", deadline: String(Date.now() + 60000) }
+		await consumer["processMessage"]("2-0", message)
+
+		expect(messageHandler).toHaveBeenCalledWith(message)
+		expect(publishResponse).not.toHaveBeenCalled()
+		expect(xAck).toHaveBeenCalledWith("stream", "group", "2-0")
+	})
+})
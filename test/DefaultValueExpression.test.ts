@@ -0,0 +1,28 @@
+import { evaluateDefaultValueExpression } from "../nodes/DefaultValueExpression"
+
+describe("evaluateDefaultValueExpression", () => {
+	const environment = { ...process.env }
+
+	afterEach(() => {
+		process.env = { ...environment }
+	})
+
+	it("keeps the type of single expressions and interpolates the rest", () => {
+		expect(evaluateDefaultValueExpression("{{ $params.count * 2 }}", { params: { count: 3 } })).toBe(6)
+		expect(evaluateDefaultValueExpression("Hello {{ $json.name }}", { json: { name: "Ada" } })).toBe("Hello Ada")
+		expect(evaluateDefaultValueExpression("{{ Duration.fromObject({ hours: 2 }) }}")).toBe("PT2H")
+		expect(evaluateDefaultValueExpression("{{ $today }}")).toMatch(/T00:00:00\.000/)
+	})
+
+	it("only exposes allow-listed environment variables", () => {
+		process.env.REGION = "eu"
+		process.env.API_SECRET = "secret"
+		process.env.FUNCTION_DEFAULT_ENV_ALLOWLIST = "REGION"
+		expect(evaluateDefaultValueExpression("{{ $env.REGION }}")).toBe("eu")
+		expect(evaluateDefaultValueExpression("{{ $env.API_SECRET }}")).toBeUndefined()
+	})
+
+	it("does not let expressions reach the n8n process", () => {
+		expect(() => evaluateDefaultValueExpression("{{ $now.constructor.constructor('return process')() }}")).toThrow("Code generation from strings disallowed")
+	})
+})
@@ -0,0 +1,35 @@
+import { getFunctionRegistry } from "../nodes/FunctionRegistryFactory"
+import { FunctionDefinition } from "../nodes/FunctionRegistry"
+
+const workflowId = "identity-workflow"
+
+function definition(name: string, nodeId: string): FunctionDefinition {
+	return { name, scope: workflowId, code: "", parameters: [], workflowId, nodeId }
+}
+
+describe("resolving a renamed function", () => {
+	beforeAll(async () => {
+		const registry = await getFunctionRegistry()
+		await registry.registerFunction(definition("sendInvoice", "node-invoice"))
+		await registry.registerFunction(definition("emailInvoice", "node-invoice"))
+	})
+
+	it("resolves the old name through its alias", async () => {
+		const registry = await getFunctionRegistry()
+		expect(await registry.resolveFunctionName("sendInvoice", workflowId)).toEqual({ name: "emailInvoice", nodeId: "node-invoice", renamedFrom: "sendInvoice" })
+		expect(await registry.getFunctionDefinition("sendInvoice", workflowId)).toBeNull()
+	})
+
+	it("resolves the function by its node ID and current name", async () => {
+		const registry = await getFunctionRegistry()
+		expect(await registry.resolveFunctionName("node-invoice", workflowId)).toEqual({ name: "emailInvoice", nodeId: "node-invoice" })
+		expect(await registry.resolveFunctionName("emailInvoice", workflowId)).toEqual({ name: "emailInvoice", nodeId: "node-invoice" })
+		expect(await registry.getPreviousFunctionNames("node-invoice", workflowId)).toEqual(["sendInvoice"])
+	})
+
+	it("stops aliasing a name once another function registers under it", async () => {
+		const registry = await getFunctionRegistry()
+		await registry.registerFunction(definition("sendInvoice", "node-new-invoice"))
+		expect(await registry.resolveFunctionName("sendInvoice", workflowId)).toEqual({ name: "sendInvoice", nodeId: "node-new-invoice" })
+	})
+})
@@ -0,0 +1,55 @@
+import { getFunctionRegistry } from "../nodes/FunctionRegistryFactory"
+import { FunctionDefinition, parseQualifiedFunctionName } from "../nodes/FunctionRegistry"
+import { resolveVersionRange } from "../nodes/SemanticVersion"
+
+describe("resolveVersionRange", () => {
+	const versions = ["1.0.0", "1.4.2", "2.0.0-beta.1", "2.1.0", "2.3.0"]
+
+	it("picks the highest stable version without a range", () => {
+		expect(resolveVersionRange(versions)).toBe("2.3.0")
+	})
+
+	it("picks the highest version matching a range", () => {
+		expect(resolveVersionRange(versions, "^1")).toBe("1.4.2")
+		expect(resolveVersionRange(versions, "~2.1.0")).toBe("2.1.0")
+		expect(resolveVersionRange(versions, "2.0.0-beta.1")).toBe("2.0.0-beta.1")
+		expect(resolveVersionRange(versions, "^3")).toBeNull()
+	})
+})
+
+describe("selecting a function version", () => {
+	const workflowId = "versions-workflow"
+
+	function definition(version?: string): FunctionDefinition {
+		return { name: "computeTax", version, scope: workflowId, code: "", parameters: [], workflowId, nodeId: `node-${version || "unversioned"}` }
+	}
+
+	beforeAll(async () => {
+		const registry = await getFunctionRegistry()
+		for (const version of ["1.2.0", "2.0.0", "2.1.0", "3.0.0-rc.1"]) {
+			await registry.registerFunction(definition(version))
+		}
+	})
+
+	it("uses the latest stable version by default", async () => {
+		const registry = await getFunctionRegistry()
+		expect((await registry.getFunctionDefinition("computeTax", workflowId))!.version).toBe("2.1.0")
+	})
+
+	it("selects versions by range or exact qualified name", async () => {
+		const registry = await getFunctionRegistry()
+		expect((await registry.getFunctionDefinition("computeTax", workflowId, "^1"))!.version).toBe("1.2.0")
+		expect((await registry.getFunctionDefinition("computeTax@2.0.0", workflowId))!.version).toBe("2.0.0")
+		expect(await registry.getFunctionDefinition("computeTax", workflowId, "^4")).toBeNull()
+	})
+
+	it("finds functions whose name contains @", async () => {
+		const registry = await getFunctionRegistry()
+		await registry.registerFunction({ ...definition(), name: "Notify @channel", nodeId: "node-notify" })
+		await registry.registerFunction({ ...definition("1.0.0"), name: "Notify @team", nodeId: "node-notify-team" })
+
+		expect((await registry.getFunctionDefinition("Notify @channel", workflowId))!.nodeId).toBe("node-notify")
+		expect((await registry.getFunctionDefinition("Notify @team@1.0.0", workflowId))!.version).toBe("1.0.0")
+		expect(parseQualifiedFunctionName("Notify @channel")).toEqual({ name: "Notify @channel" })
+	})
+})
@@ -0,0 +1,70 @@
+import { FunctionParameter } from "../nodes/FunctionRegistry"
+import { ParameterBindingError, bindParameters, coerceParameterValue } from "../nodes/ParameterBinding"
+
+function parameter(name: string, type: string, extra: Partial<FunctionParameter> = {}): FunctionParameter {
+	return { name, type, required: false, ...extra }
+}
+
+describe("coerceParameterValue", () => {
+	it("converts entered text to numbers and booleans", () => {
+		expect(coerceParameterValue("number", "42")).toBe(42)
+		expect(coerceParameterValue("number", " 1.5 ")).toBe(1.5)
+		expect(coerceParameterValue("boolean", "TRUE")).toBe(true)
+		expect(coerceParameterValue("boolean", "false")).toBe(false)
+	})
+
+	it("rejects values that are not of the declared type", () => {
+		expect(() => coerceParameterValue("number", "abc")).toThrow("must be a number")
+		expect(() => coerceParameterValue("number", "")).toThrow("must be a number")
+		expect(() => coerceParameterValue("boolean", "yes")).toThrow("must be a boolean")
+		expect(() => coerceParameterValue("string", { a: 1 })).toThrow("must be a string")
+	})
+
+	it("parses objects and arrays from text", () => {
+		expect(coerceParameterValue("object", '{"a":1}')).toEqual({ a: 1 })
+		expect(coerceParameterValue("array", "[1,2]")).toEqual([1, 2])
+		expect(() => coerceParameterValue("object", "[1,2]")).toThrow("must be an object")
+		expect(() => coerceParameterValue("array", '{"a":1}')).toThrow("must be an array")
+	})
+
+	it("keeps numbers and booleans given for strings as text", () => {
+		expect(coerceParameterValue("string", 7)).toBe("7")
+		expect(coerceParameterValue("string", true)).toBe("true")
+	})
+})
+
+describe("bindParameters", () => {
+	it("coerces values and applies typed defaults", () => {
+		const bound = bindParameters("f", [parameter("count", "number"), parameter("enabled", "boolean", { defaultValue: "true" })], undefined, { count: "3" })
+		expect(bound).toEqual({ count: 3, enabled: true })
+	})
+
+	it("evaluates expression defaults against earlier parameters", () => {
+		const bound = bindParameters("f", [parameter("count", "number"), parameter("double", "number", { defaultValue: "{{ $params.count * 2 }}" })], undefined, { count: 4 })
+		expect(bound).toEqual({ count: 4, double: 8 })
+	})
+
+	it("reports every failing parameter at once", () => {
+		const parameters = [parameter("name", "string", { required: true }), parameter("count", "number"), parameter("mode", "options", { options: ["a", "b"] })]
+		let error: ParameterBindingError | undefined
+		try {
+			bindParameters("f", parameters, undefined, { count: "many", mode: "c", extra: 1 })
+		} catch (thrown) {
+			error = thrown
+		}
+
+		expect(error).toBeInstanceOf(ParameterBindingError)
+		expect(error!.code).toBe("PARAMETER_VALIDATION_FAILED")
+		expect(error!.issues.map((issue) => [issue.parameter, issue.code])).toEqual([
+			["extra", "unknown"],
+			["count", "type"],
+			["name", "required"],
+			["mode", "option"],
+		])
+	})
+
+	it("checks constraints", () => {
+		expect(() => bindParameters("f", [parameter("age", "number", { constraints: { minimum: 0 } })], undefined, { age: -1 })).toThrow(ParameterBindingError)
+		expect(bindParameters("f", [parameter("age", "number", { constraints: { minimum: 0 } })], undefined, { age: 0 })).toEqual({ age: 0 })
+	})
+})
@@ -0,0 +1,94 @@
+import { FunctionCallError, FunctionErrorCodes } from "../nodes/FunctionCallError"
+import { RetryPolicy, getRetryCondition, getRetryDelay, runWithRetry, shouldRetry } from "../nodes/RetryPolicy"
+
+function policy(overrides: Partial<RetryPolicy> = {}): RetryPolicy {
+	return { maxAttempts: 3, backoff: "fixed", delay: 0, maxDelay: 0, jitter: false, retryOn: ["timeout", "unavailable"], errorCodes: ["FUNCTION_ERROR"], ...overrides }
+}
+
+describe("getRetryCondition", () => {
+	it("classifies timeouts, unavailable functions and function error codes", () => {
+		expect(getRetryCondition(new FunctionCallError(FunctionErrorCodes.FUNCTION_CALL_TIMEOUT, "timed out"))).toBe("timeout")
+		expect(getRetryCondition(new Error("Function 'f' not available"))).toBe("unavailable")
+		expect(getRetryCondition(new FunctionCallError("ORDER_LOCKED", "locked"))).toBe("errorCode")
+		expect(getRetryCondition(new Error("something else"))).toBeNull()
+	})
+
+	it("classifies typed errors by their code even when the message looks like an unavailable function", () => {
+		expect(getRetryCondition(new FunctionCallError("OUT_OF_STOCK", "Item not available"))).toBe("errorCode")
+		expect(getRetryCondition(new FunctionCallError("ORDER_MISSING", "Order not found in scope"))).toBe("errorCode")
+	})
+
+	it("never retries cancelled calls or calls past their deadline", () => {
+		expect(getRetryCondition(new FunctionCallError(FunctionErrorCodes.CALL_CANCELLED, "cancelled"))).toBeNull()
+		expect(getRetryCondition(new FunctionCallError(FunctionErrorCodes.DEADLINE_EXCEEDED, "too late"))).toBeNull()
+	})
+})
+
+describe("shouldRetry", () => {
+	it("only retries the conditions the policy lists", () => {
+		const timeout = new FunctionCallError(FunctionErrorCodes.FUNCTION_CALL_TIMEOUT, "timed out")
+		expect(shouldRetry(policy(), timeout)).toBe(true)
+		expect(shouldRetry(policy({ retryOn: ["unavailable"] }), timeout)).toBe(false)
+	})
+
+	it("does not retry errors reported by the function under the default policy", () => {
+		expect(shouldRetry(policy(), new FunctionCallError("OUT_OF_STOCK", "Item not available"))).toBe(false)
+		expect(shouldRetry(policy(), new Error("Function 'reserveItem' not available"))).toBe(true)
+	})
+
+	it("retries listed error codes and errors thrown as retryable", () => {
+		const retryOn: RetryPolicy["retryOn"] = ["errorCode"]
+		expect(shouldRetry(policy({ retryOn }), new FunctionCallError("FUNCTION_ERROR", "failed"))).toBe(true)
+		expect(shouldRetry(policy({ retryOn }), new FunctionCallError("ORDER_LOCKED", "locked"))).toBe(false)
+		expect(shouldRetry(policy({ retryOn }), new FunctionCallError("ORDER_LOCKED", "locked", undefined, true))).toBe(true)
+	})
+})
+
+describe("getRetryDelay", () => {
+	it("doubles exponential delays up to the bound", () => {
+		const exponential = policy({ backoff: "exponential", delay: 100, maxDelay: 300 })
+		expect([1, 2, 3].map((attempt) => getRetryDelay(exponential, attempt))).toEqual([100, 200, 300])
+	})
+
+	it("keeps jittered delays between half and all of the delay", () => {
+		const delay = getRetryDelay(policy({ delay: 100, jitter: true }), 1)
+		expect(delay).toBeGreaterThanOrEqual(50)
+		expect(delay).toBeLessThanOrEqual(100)
+	})
+})
+
+describe("runWithRetry", () => {
+	it("retries until the operation succeeds", async () => {
+		const attempts: number[] = []
+		const result = await runWithRetry(policy(), async (attempt) => {
+			attempts.push(attempt)
+			if (attempt < 3) {
+				throw new FunctionCallError(FunctionErrorCodes.FUNCTION_CALL_TIMEOUT, "timed out")
+			}
+			return "done"
+		})
+		expect(result).toBe("done")
+		expect(attempts).toEqual([1, 2, 3])
+	})
+
+	it("rethrows the last failure once attempts run out", async () => {
+		let attempts = 0
+		await expect(
+			runWithRetry(policy({ maxAttempts: 2 }), async () => {
+				attempts++
+				throw new FunctionCallError(FunctionErrorCodes.FUNCTION_CALL_TIMEOUT, `timeout ${attempts}`)
+			})
+		).rejects.toThrow("timeout 2")
+	})
+
+	it("does not retry failures the policy does not cover", async () => {
+		let attempts = 0
+		await expect(
+			runWithRetry(policy(), async () => {
+				attempts++
+				throw new Error("bad configuration")
+			})
+		).rejects.toThrow("bad configuration")
+		expect(attempts).toBe(1)
+	})
+})
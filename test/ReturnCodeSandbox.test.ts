@@ -0,0 +1,33 @@
+import { SandboxOptions, runReturnCode } from "../nodes/ReturnCodeSandbox"
+
+const input = { $json: { value: 2 }, $binary: {}, $index: 0, $item: { json: { value: 2 } } }
+
+describe("runReturnCode", () => {
+	const options: SandboxOptions = { isolation: "context", timeout: 200, memoryLimit: 32 }
+
+	it("runs the code against the item and returns its result", async () => {
+		await expect(runReturnCode("return { doubled: $json.value * 2 }", input, options, () => {})).resolves.toEqual({ doubled: 4 })
+		await expect(runReturnCode("return [$index, $item.json.value]", input, options, () => {})).resolves.toEqual([0, 2])
+	})
+
+	it("passes console output to the log", async () => {
+		const messages: string[] = []
+		await runReturnCode("console.warn('value', $json)", input, options, (level, message) => messages.push(`${level} ${message}`))
+		expect(messages).toEqual(['warn value {"value":2}'])
+	})
+
+	it("hides the n8n process from the code", async () => {
+		await expect(runReturnCode("return typeof process + typeof require", input, options, () => {})).resolves.toBe("undefinedundefined")
+		await expect(runReturnCode("return this.constructor.constructor('return process')()", input, options, () => {})).rejects.toThrow("Code generation from strings disallowed")
+	})
+
+	it("stops code that runs past the timeout", async () => {
+		await expect(runReturnCode("while (true) {}", input, options, () => {})).rejects.toThrow("timed out")
+	})
+
+	it("runs in a worker thread with a memory limit in strict mode", async () => {
+		const strict: SandboxOptions = { isolation: "worker", timeout: 2000, memoryLimit: 16 }
+		await expect(runReturnCode("return $json.value + 1", input, strict, () => {})).resolves.toBe(3)
+		await expect(runReturnCode("const chunks = []; while (true) chunks.push(new Array(1e5).fill(1))", input, strict, () => {})).rejects.toThrow("out of memory")
+	})
+})
@@ -0,0 +1,78 @@
+import type { IExecuteFunctions, INodeExecutionData } from "n8n-workflow"
+import { ReturnFromFunction } from "../nodes/ReturnFromFunction/ReturnFromFunction.node"
+import { getFunctionRegistry } from "../nodes/FunctionRegistryFactory"
+import { JsonSchema } from "../nodes/JsonSchemaValidator"
+
+const workflowId = "return-workflow"
+
+/**
+ * Minimal execution context for Return from Function in in-memory mode
+ */
+function createContext(items: INodeExecutionData[], parameters: Record<string, any>): IExecuteFunctions {
+	return {
+		getInputData: () => items,
+		getNodeParameter: (name: string, _itemIndex: number, fallback?: any) => (name in parameters ? parameters[name] : fallback),
+		getNode: () => ({ name: "Return from Function", type: "returnFromFunction", typeVersion: 1, position: [0, 0], parameters: {} }),
+		getWorkflow: () => ({ id: workflowId, active: false }),
+	} as unknown as IExecuteFunctions
+}
+
+function callItem(callId: string, functionName: string, json: Record<string, any> = {}): INodeExecutionData {
+	return { json: { ...json, _functionCall: { callId, functionName, timestamp: Date.now() } } }
+}
+
+async function registerFunction(name: string, returnSchema?: JsonSchema): Promise<void> {
+	const registry = await getFunctionRegistry()
+	await registry.registerFunction({ name, scope: workflowId, code: "", parameters: [], workflowId, nodeId: `node-${name}`, returnSchema })
+}
+
+describe("ReturnFromFunction", () => {
+	it("returns a list from Each Item as an array", async () => {
+		await registerFunction("listOrders")
+		const context = createContext([callItem("each-1", "listOrders")], { returnCode: "return [{ id: 1 }, { id: 2 }]" })
+
+		await new ReturnFromFunction().execute.call(context)
+
+		const registry = await getFunctionRegistry()
+		expect(await registry.getFunctionReturnValue("each-1")).toEqual([{ id: 1 }, { id: 2 }])
+	})
+
+	it("returns one array per call from All Items as a List", async () => {
+		await registerFunction("collectIds")
+		const items = [callItem("all-1", "collectIds", { id: 1 }), callItem("all-1", "collectIds", { id: 2 }), callItem("all-2", "collectIds", { id: 3 })]
+		const context = createContext(items, { returnMode: "all", returnCode: "return [$json.id]" })
+
+		await new ReturnFromFunction().execute.call(context)
+
+		const registry = await getFunctionRegistry()
+		expect(await registry.getFunctionReturnValue("all-1")).toEqual([[1], [2]])
+		expect(await registry.getFunctionReturnValue("all-2")).toEqual([[3]])
+	})
+
+	it("still removes call metadata from returned objects", async () => {
+		await registerFunction("echo")
+		const context = createContext([callItem("echo-1", "echo", { value: 1 })], { returnCode: "return $json" })
+
+		await new ReturnFromFunction().execute.call(context)
+
+		const registry = await getFunctionRegistry()
+		expect(await registry.getFunctionReturnValue("echo-1")).toEqual({ value: 1 })
+	})
+
+	it("accepts array returns for an array Return Schema", async () => {
+		await registerFunction("listNumbers", { type: "array", items: { type: "number" } })
+		const context = createContext([callItem("schema-1", "listNumbers")], { returnCode: "return [1, 2, 3]" })
+
+		await new ReturnFromFunction().execute.call(context)
+
+		const registry = await getFunctionRegistry()
+		expect(await registry.getFunctionReturnValue("schema-1")).toEqual([1, 2, 3])
+	})
+
+	it("fails calls whose return does not match the Return Schema", async () => {
+		await registerFunction("listStrings", { type: "array", items: { type: "string" } })
+		const context = createContext([callItem("schema-2", "listStrings")], { returnCode: "return [1]" })
+
+		await expect(new ReturnFromFunction().execute.call(context)).rejects.toThrow("does not match its Return Schema")
+	})
+})